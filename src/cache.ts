@@ -0,0 +1,85 @@
+/**
+ * Bounded LRU cache with per-entry expiry
+ */
+
+export interface LruCacheOptions {
+  /** Maximum number of entries before the least recently used is evicted */
+  maxEntries: number;
+
+  /** How long an entry stays valid */
+  ttlMs: number;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+export class LruCache<K, V> {
+  private maxEntries: number;
+  private ttlMs: number;
+  // Map iteration order doubles as recency order: oldest first
+  private map = new Map<K, CacheEntry<V>>();
+
+  constructor(options: LruCacheOptions) {
+    this.maxEntries = Math.max(1, options.maxEntries);
+    this.ttlMs = options.ttlMs;
+  }
+
+  /**
+   * Get a live entry, marking it as most recently used
+   */
+  get(key: K): V | undefined {
+    const entry = this.map.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.map.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.map.set(key, entry);
+    return entry.value;
+  }
+
+  has(key: K): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  /**
+   * Add or replace an entry, optionally with an expiry of its own
+   */
+  set(key: K, value: V, ttlMs = this.ttlMs): void {
+    this.map.delete(key);
+    this.map.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.map.size > this.maxEntries) {
+      const oldest = this.map.keys().next().value as K;
+      this.map.delete(oldest);
+    }
+  }
+
+  delete(key: K): boolean {
+    return this.map.delete(key);
+  }
+
+  clear(): void {
+    this.map.clear();
+  }
+
+  /**
+   * Live entries, least recently used first, without touching their recency
+   */
+  *entries(): IterableIterator<[K, V]> {
+    const now = Date.now();
+    for (const [key, entry] of this.map) {
+      if (entry.expiresAt > now) {
+        yield [key, entry.value];
+      }
+    }
+  }
+
+  get size(): number {
+    return this.map.size;
+  }
+}
@@ -0,0 +1,1309 @@
+/**
+ * Tests for the OpenClaw channel plugin HTTP webhook handler
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import * as crypto from 'crypto';
+import { PassThrough } from 'stream';
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  createWebhookHandler,
+  registerWebexWebhookTarget,
+  setPluginRuntime,
+  webexPlugin,
+} from './channel-plugin';
+import { removeDownloadedMedia } from './media';
+import { WebexSender } from './send';
+import type { ResolvedWebexAccount } from './channel-plugin';
+import { WebexWebhookHandler } from './webhook';
+import { DedupeStore } from './dedupe';
+import { KeyedWorkQueue } from './queue';
+import { Debouncer } from './conversation';
+import { SELF_TEST_HEADER } from './route';
+import { WebexPoller } from './poller';
+import { WebhookReconciler } from './reconciler';
+import type { WebexChannelConfig, WebexWebhookPayload, WebexMessage, OpenClawEnvelope } from './types';
+import type { PluginRuntime } from 'openclaw/plugin-sdk';
+
+vi.mock('./send', () => {
+  const MockWebexSender = vi.fn().mockImplementation(function(this: unknown) {
+    (this as Record<string, unknown>).send = vi.fn().mockResolvedValue({ id: 'sent-123', roomId: 'room-123' });
+    (this as Record<string, unknown>).sendToRoom = vi.fn().mockResolvedValue({ id: 'sent-123', roomId: 'room-123' });
+    (this as Record<string, unknown>).sendDirectById = vi.fn().mockResolvedValue({ id: 'sent-123', roomId: 'room-123' });
+    (this as Record<string, unknown>).editMessage = vi.fn().mockResolvedValue({ id: 'sent-123', roomId: 'room-123' });
+    return this;
+  });
+  return { WebexSender: MockWebexSender };
+});
+
+vi.mock('./media', () => ({
+  WebexMediaDownloader: vi.fn().mockImplementation(function(this: unknown) {
+    (this as Record<string, unknown>).download = vi.fn(async (url: string) => {
+      if (url.endsWith('too-big')) {
+        throw new Error('File is too large');
+      }
+      return { url, fileName: 'photo.png', contentType: 'image/png', size: 3, path: '/tmp/media/photo.png' };
+    });
+    return this;
+  }),
+  removeDownloadedMedia: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Helper to create a mock incoming request carrying a raw body
+function createMockRequest(
+  body: string,
+  headers: Record<string, string> = {},
+  options: { method?: string; url?: string } = {}
+): IncomingMessage {
+  const stream = new PassThrough();
+  const req = Object.assign(stream, {
+    method: options.method ?? 'POST',
+    url: options.url ?? '/webhooks/webex/test',
+    headers,
+  });
+  process.nextTick(() => stream.end(body));
+  return req as unknown as IncomingMessage;
+}
+
+// Helper to create a mock server response
+function createMockResponse() {
+  const res = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: '',
+    setHeader: vi.fn((name: string, value: string) => {
+      res.headers[name] = value;
+    }),
+    end: vi.fn((data?: string) => {
+      res.body = data ?? '';
+    }),
+  };
+  return res;
+}
+
+function sign(body: string, secret: string, algorithm = 'sha1'): string {
+  return crypto.createHmac(algorithm, secret).update(body).digest('hex');
+}
+
+describe('createWebhookHandler', () => {
+  const body = JSON.stringify({
+    id: 'webhook-id',
+    resource: 'messages',
+    event: 'created',
+    data: { id: 'message-123', roomId: 'room-123', roomType: 'group', personId: 'person-123' },
+  });
+
+  let config: WebexChannelConfig;
+  let mockWebhookHandler: { getConfig: ReturnType<typeof vi.fn>; handleWebhook: ReturnType<typeof vi.fn> };
+  let unregister: () => void;
+
+  function registerTarget(
+    dedupe?: DedupeStore,
+    queue?: KeyedWorkQueue,
+    debouncer?: Debouncer<WebexWebhookPayload>
+  ): void {
+    const account: ResolvedWebexAccount = {
+      accountId: 'test',
+      enabled: true,
+      configured: true,
+      config,
+    };
+    unregister = registerWebexWebhookTarget('/webhooks/webex/test', {
+      account,
+      config,
+      webhookHandler: mockWebhookHandler as unknown as WebexWebhookHandler,
+      dedupe,
+      queue,
+      debouncer,
+    });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config = {
+      token: 'test-token',
+      webhookUrl: 'https://example.com/webhooks/webex/test',
+      dmPolicy: 'allow',
+      webhookSecret: 'test-secret',
+    };
+    mockWebhookHandler = {
+      getConfig: vi.fn(() => config),
+      handleWebhook: vi.fn().mockResolvedValue(null),
+    };
+    registerTarget();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unregister();
+    setPluginRuntime(null as unknown as PluginRuntime);
+    vi.restoreAllMocks();
+  });
+
+  it('should ignore requests outside the webhook path', async () => {
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+
+    const handled = await handler(
+      createMockRequest(body, {}, { url: '/other' }),
+      res as unknown as ServerResponse
+    );
+
+    expect(handled).toBe(false);
+  });
+
+  it('should reject non-POST requests', async () => {
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+
+    await handler(createMockRequest('', {}, { method: 'GET' }), res as unknown as ServerResponse);
+
+    expect(res.statusCode).toBe(405);
+  });
+
+  it('should accept a request with a valid SHA-1 signature', async () => {
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+
+    await handler(
+      createMockRequest(body, { 'x-spark-signature': sign(body, 'test-secret') }),
+      res as unknown as ServerResponse
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(mockWebhookHandler.handleWebhook).toHaveBeenCalledWith(JSON.parse(body));
+  });
+
+  it('should accept SHA-256 and SHA-512 signatures', async () => {
+    const handler = createWebhookHandler();
+
+    for (const algorithm of ['sha256', 'sha512']) {
+      const res = createMockResponse();
+      await handler(
+        createMockRequest(body, { 'x-spark-signature': sign(body, 'test-secret', algorithm) }),
+        res as unknown as ServerResponse
+      );
+      expect(res.statusCode).toBe(200);
+    }
+  });
+
+  it('should verify the raw body rather than the re-serialized payload', async () => {
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+    const spacedBody = JSON.stringify(JSON.parse(body), null, 2);
+
+    await handler(
+      createMockRequest(spacedBody, { 'x-spark-signature': sign(spacedBody, 'test-secret') }),
+      res as unknown as ServerResponse
+    );
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('should reject a request with an invalid signature with 401', async () => {
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+
+    await handler(
+      createMockRequest(body, { 'x-spark-signature': sign(body, 'wrong-secret') }),
+      res as unknown as ServerResponse
+    );
+
+    expect(res.statusCode).toBe(401);
+    expect(mockWebhookHandler.handleWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should reject a request with a missing signature with 401', async () => {
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+
+    await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+    expect(res.statusCode).toBe(401);
+    expect(mockWebhookHandler.handleWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should skip verification when no secret is configured', async () => {
+    config = { ...config, webhookSecret: undefined };
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+
+    await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('should answer the startup self-test without processing it', async () => {
+    unregister();
+    unregister = registerWebexWebhookTarget('/webhooks/webex/test', {
+      account: { accountId: 'test', enabled: true, configured: true, config },
+      config,
+      webhookHandler: mockWebhookHandler as unknown as WebexWebhookHandler,
+      selfTestNonce: 'nonce-123',
+    });
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+
+    await handler(createMockRequest('{}', { [SELF_TEST_HEADER]: 'nonce-123' }), res as unknown as ServerResponse);
+
+    expect(res.statusCode).toBe(200);
+    expect(JSON.parse(res.body)).toEqual({ ok: true, selfTest: 'nonce-123' });
+    expect(mockWebhookHandler.handleWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a self-test with a foreign nonce', async () => {
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+
+    await handler(createMockRequest('{}', { [SELF_TEST_HEADER]: 'guess' }), res as unknown as ServerResponse);
+
+    expect(res.statusCode).toBe(403);
+    expect(mockWebhookHandler.handleWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid JSON with 400', async () => {
+    config = { ...config, webhookSecret: undefined };
+    const handler = createWebhookHandler();
+    const res = createMockResponse();
+
+    await handler(createMockRequest('not json'), res as unknown as ServerResponse);
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  describe('reply dispatch', () => {
+    const messageEnvelope: OpenClawEnvelope = {
+      id: 'message-123',
+      kind: 'message',
+      channel: 'webex',
+      conversationId: 'room-123',
+      author: { id: 'person-123', email: 'person@example.com', isBot: false },
+      content: { text: "what's the weather" },
+      metadata: {
+        roomType: 'group',
+        roomId: 'room-123',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        mentions: ['bot-123'],
+        wasMentioned: true,
+        raw: {
+          id: 'message-123',
+          roomId: 'room-123',
+          roomType: 'group',
+          personId: 'person-123',
+          personEmail: 'person@example.com',
+          created: '2024-01-01T00:00:00.000Z',
+        },
+      },
+    };
+
+    let dispatchReply: ReturnType<typeof vi.fn>;
+    let enqueueSystemEvent: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      config = { ...config, webhookSecret: undefined };
+      dispatchReply = vi.fn().mockResolvedValue(undefined);
+      enqueueSystemEvent = vi.fn();
+      setPluginRuntime({
+        system: { enqueueSystemEvent },
+        channel: { reply: { dispatchReplyWithBufferedBlockDispatcher: dispatchReply } },
+      } as unknown as PluginRuntime);
+      mockWebhookHandler.handleWebhook.mockResolvedValue(messageEnvelope);
+    });
+
+    it('should pass the stripped body and mention fields in the ctx payload', async () => {
+      const handler = createWebhookHandler();
+      const res = createMockResponse();
+
+      await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+      expect(dispatchReply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ctx: expect.objectContaining({
+            Body: "what's the weather",
+            ChatType: 'group',
+            WasMentioned: true,
+            Mentions: ['bot-123'],
+          }),
+        })
+      );
+    });
+
+    it('should pass downloaded files as MediaPath and MediaType', async () => {
+      mockWebhookHandler.handleWebhook.mockResolvedValue({
+        ...messageEnvelope,
+        content: {
+          text: 'see attached',
+          attachments: [
+            { type: 'file', url: 'https://webexapis.com/v1/contents/file-1' },
+            { type: 'file', url: 'https://webexapis.com/v1/contents/too-big' },
+          ],
+        },
+      });
+      const handler = createWebhookHandler();
+      const res = createMockResponse();
+
+      await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+      expect(dispatchReply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ctx: expect.objectContaining({
+            MediaPath: '/tmp/media/photo.png',
+            MediaType: 'image/png',
+            MediaPaths: ['/tmp/media/photo.png'],
+            MediaTypes: ['image/png'],
+          }),
+        })
+      );
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('skipped attachment'));
+    });
+
+    it('should delete downloaded files after the reply, even when it fails', async () => {
+      mockWebhookHandler.handleWebhook.mockResolvedValue({
+        ...messageEnvelope,
+        content: { text: 'see attached', attachments: [{ type: 'file', url: 'https://webexapis.com/v1/contents/file-1' }] },
+      });
+      let removedDuringReply: number | undefined;
+      dispatchReply.mockImplementation(async () => {
+        removedDuringReply = vi.mocked(removeDownloadedMedia).mock.calls.length;
+        throw new Error('agent failed');
+      });
+      const handler = createWebhookHandler();
+
+      await handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+
+      expect(removedDuringReply).toBe(0);
+      expect(removeDownloadedMedia).toHaveBeenCalledWith([expect.objectContaining({ path: '/tmp/media/photo.png' })]);
+    });
+
+    it('should leave media fields unset without attachments', async () => {
+      const handler = createWebhookHandler();
+      const res = createMockResponse();
+
+      await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+      const [{ ctx }] = dispatchReply.mock.calls[0];
+      expect(ctx.MediaPath).toBeUndefined();
+      expect(ctx.MediaPaths).toBeUndefined();
+    });
+
+    it('should post one message per block by default', async () => {
+      dispatchReply.mockImplementation(async ({ dispatcherOptions }) => {
+        await dispatcherOptions.deliver({ text: 'First' });
+        await dispatcherOptions.deliver({ text: 'Second' });
+      });
+      const handler = createWebhookHandler();
+
+      await handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+
+      const sender = vi.mocked(WebexSender).mock.instances[0] as unknown as {
+        send: ReturnType<typeof vi.fn>;
+        editMessage: ReturnType<typeof vi.fn>;
+      };
+      expect(sender.send).toHaveBeenCalledTimes(2);
+      expect(sender.editMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send reply media as a URL or an upload', async () => {
+      dispatchReply.mockImplementation(async ({ dispatcherOptions }) => {
+        await dispatcherOptions.deliver({ text: 'Chart', media: 'https://example.com/chart.png' });
+        await dispatcherOptions.deliver({ media: '/tmp/report.pdf' });
+      });
+      const handler = createWebhookHandler();
+
+      await handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+
+      const sender = vi.mocked(WebexSender).mock.instances[0] as unknown as { send: ReturnType<typeof vi.fn> };
+      expect(sender.send.mock.calls.map(([message]) => message.content)).toEqual([
+        { markdown: 'Chart', files: ['https://example.com/chart.png'] },
+        { markdown: undefined, upload: { data: '/tmp/report.pdf' } },
+      ]);
+    });
+
+    it('should edit a placeholder message when streaming is enabled', async () => {
+      config = { ...config, streaming: { enabled: true, editIntervalMs: 60_000 } };
+      unregister();
+      registerTarget();
+      dispatchReply.mockImplementation(async ({ dispatcherOptions }) => {
+        await dispatcherOptions.deliver({ text: 'First' });
+        await dispatcherOptions.deliver({ text: 'Second' });
+      });
+      const handler = createWebhookHandler();
+
+      await handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+
+      const sender = vi.mocked(WebexSender).mock.instances[0] as unknown as {
+        send: ReturnType<typeof vi.fn>;
+        editMessage: ReturnType<typeof vi.fn>;
+      };
+      expect(sender.send).toHaveBeenCalledTimes(1);
+      expect(sender.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'room-123', content: { markdown: 'First' } })
+      );
+      expect(sender.editMessage).toHaveBeenCalledWith('sent-123', 'room-123', 'First\n\nSecond');
+    });
+
+    it('should flag edited messages in the ctx payload', async () => {
+      mockWebhookHandler.handleWebhook.mockResolvedValue({ ...messageEnvelope, kind: 'messageEdited' });
+      const handler = createWebhookHandler();
+
+      await handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+
+      const [{ ctx }] = dispatchReply.mock.calls[0];
+      expect(ctx.MessageEdited).toBe(true);
+      expect(ctx.MessageSid).toBe('message-123');
+    });
+
+    it('should cancel an in-flight reply when its message is edited, though the edit is queued behind it', async () => {
+      const queue = new KeyedWorkQueue();
+      unregister();
+      registerTarget(undefined, queue);
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => { release = resolve; });
+      dispatchReply.mockImplementationOnce(async () => {
+        await released;
+      });
+      const handler = createWebhookHandler();
+
+      await handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+      await vi.waitFor(() => expect(dispatchReply).toHaveBeenCalled());
+
+      mockWebhookHandler.handleWebhook.mockResolvedValue({ ...messageEnvelope, kind: 'messageEdited' });
+      const edited = JSON.stringify({ ...JSON.parse(body), event: 'updated' });
+      await handler(createMockRequest(edited), createMockResponse() as unknown as ServerResponse);
+
+      expect(dispatchReply.mock.calls[0][0].replyOptions.abortSignal.aborted).toBe(true);
+      expect(dispatchReply).toHaveBeenCalledTimes(1);
+
+      release();
+      await queue.onIdle();
+
+      expect(dispatchReply).toHaveBeenCalledTimes(2);
+      expect(dispatchReply.mock.calls[1][0].ctx.MessageEdited).toBe(true);
+    });
+
+    it('should cancel an in-flight reply when its message is deleted', async () => {
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => { release = resolve; });
+      dispatchReply.mockImplementation(async ({ dispatcherOptions }) => {
+        await released;
+        await dispatcherOptions.deliver({ text: 'Too late' });
+      });
+      const handler = createWebhookHandler();
+
+      const pending = handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+      await vi.waitFor(() => expect(dispatchReply).toHaveBeenCalled());
+
+      mockWebhookHandler.handleWebhook.mockResolvedValue({ ...messageEnvelope, kind: 'messageDeleted', content: {} });
+      const deleted = JSON.stringify({ ...JSON.parse(body), event: 'deleted' });
+      await handler(createMockRequest(deleted), createMockResponse() as unknown as ServerResponse);
+
+      const [{ replyOptions }] = dispatchReply.mock.calls[0];
+      expect(replyOptions.abortSignal.aborted).toBe(true);
+      expect(dispatchReply).toHaveBeenCalledTimes(1);
+
+      release();
+      await pending;
+
+      const sender = vi.mocked(WebexSender).mock.instances[0] as unknown as { send: ReturnType<typeof vi.fn> };
+      expect(sender.send).not.toHaveBeenCalled();
+    });
+
+    it('should tell the agent a message was deleted', async () => {
+      mockWebhookHandler.handleWebhook.mockResolvedValue({ ...messageEnvelope, kind: 'messageDeleted', content: {} });
+      const handler = createWebhookHandler();
+
+      await handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+
+      expect(enqueueSystemEvent).toHaveBeenCalledWith(`Webex: message ${messageEnvelope.id} was deleted`, {
+        sessionKey: `agent:main:webex:${messageEnvelope.conversationId}`,
+      });
+      expect(dispatchReply).not.toHaveBeenCalled();
+    });
+
+    it('should dispatch messages in one room one at a time, in order', async () => {
+      const queue = new KeyedWorkQueue();
+      unregister();
+      registerTarget(undefined, queue);
+      const log: string[] = [];
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => { release = resolve; });
+      dispatchReply.mockImplementation(async ({ ctx }) => {
+        log.push(`start ${ctx.Body}`);
+        if (ctx.Body === 'first') {
+          await released;
+        }
+        log.push(`end ${ctx.Body}`);
+      });
+      mockWebhookHandler.handleWebhook
+        .mockResolvedValueOnce({ ...messageEnvelope, content: { text: 'first' } })
+        .mockResolvedValueOnce({ ...messageEnvelope, id: 'message-456', content: { text: 'second' } });
+      const handler = createWebhookHandler();
+
+      const first = handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+      await vi.waitFor(() => expect(log).toEqual(['start first']));
+      const second = handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(log).toEqual(['start first']);
+
+      release();
+      await Promise.all([first, second]);
+      await queue.onIdle();
+
+      expect(log).toEqual(['start first', 'end first', 'start second', 'end second']);
+    });
+
+    it('should coalesce rapid-fire messages into one turn when debouncing', async () => {
+      unregister();
+      registerTarget(undefined, undefined, new Debouncer<WebexWebhookPayload>(20));
+      mockWebhookHandler.handleWebhook
+        .mockResolvedValueOnce({ ...messageEnvelope, content: { text: 'first' } })
+        .mockResolvedValueOnce({ ...messageEnvelope, id: 'message-456', content: { text: 'second' } });
+      const other = JSON.stringify({ ...JSON.parse(body), data: { ...JSON.parse(body).data, id: 'message-456' } });
+      const handler = createWebhookHandler();
+      const firstRes = createMockResponse();
+      const secondRes = createMockResponse();
+
+      await handler(createMockRequest(body), firstRes as unknown as ServerResponse);
+      await handler(createMockRequest(other), secondRes as unknown as ServerResponse);
+
+      // Both are acknowledged before the window closes
+      expect(JSON.parse(firstRes.body)).toEqual({ ok: true });
+      expect(JSON.parse(secondRes.body)).toEqual({ ok: true, coalesced: true });
+      expect(mockWebhookHandler.handleWebhook).not.toHaveBeenCalled();
+
+      await vi.waitFor(() => expect(dispatchReply).toHaveBeenCalledTimes(1));
+      expect(mockWebhookHandler.handleWebhook).toHaveBeenCalledTimes(2);
+      const [{ ctx }] = dispatchReply.mock.calls[0];
+      expect(ctx.Body).toBe('first\nsecond');
+      expect(ctx.MessageSid).toBe('message-456');
+    });
+
+    it('should default WasMentioned to false', async () => {
+      mockWebhookHandler.handleWebhook.mockResolvedValue({
+        ...messageEnvelope,
+        metadata: { ...messageEnvelope.metadata, mentions: undefined, wasMentioned: undefined },
+      });
+      const handler = createWebhookHandler();
+      const res = createMockResponse();
+
+      await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+      expect(dispatchReply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ctx: expect.objectContaining({ WasMentioned: false, Mentions: [] }),
+        })
+      );
+    });
+  });
+
+  describe('duplicate deliveries', () => {
+    beforeEach(() => {
+      config = { ...config, webhookSecret: undefined };
+      unregister();
+      registerTarget(new DedupeStore());
+    });
+
+    it('should process concurrent deliveries of the same message once', async () => {
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => { release = resolve; });
+      mockWebhookHandler.handleWebhook.mockImplementation(async () => {
+        await released;
+        return null;
+      });
+      const handler = createWebhookHandler();
+      const first = createMockResponse();
+      const second = createMockResponse();
+
+      const pending = handler(createMockRequest(body), first as unknown as ServerResponse);
+      await handler(createMockRequest(body), second as unknown as ServerResponse);
+
+      expect(second.statusCode).toBe(200);
+      expect(JSON.parse(second.body)).toEqual({ ok: true, duplicate: true });
+
+      release();
+      await pending;
+
+      expect(first.statusCode).toBe(200);
+      expect(mockWebhookHandler.handleWebhook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should process a redelivery after the first attempt failed', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockWebhookHandler.handleWebhook.mockRejectedValueOnce(new Error('boom'));
+      const handler = createWebhookHandler();
+      const first = createMockResponse();
+      const second = createMockResponse();
+
+      await handler(createMockRequest(body), first as unknown as ServerResponse);
+      await handler(createMockRequest(body), second as unknown as ServerResponse);
+
+      expect(first.statusCode).toBe(500);
+      expect(second.statusCode).toBe(200);
+      expect(mockWebhookHandler.handleWebhook).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not treat different messages as duplicates', async () => {
+      const handler = createWebhookHandler();
+      const other = JSON.stringify({ ...JSON.parse(body), data: { ...JSON.parse(body).data, id: 'message-456' } });
+
+      await handler(createMockRequest(body), createMockResponse() as unknown as ServerResponse);
+      await handler(createMockRequest(other), createMockResponse() as unknown as ServerResponse);
+
+      expect(mockWebhookHandler.handleWebhook).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('work queue', () => {
+    let queue: KeyedWorkQueue;
+
+    beforeEach(() => {
+      config = { ...config, webhookSecret: undefined };
+      queue = new KeyedWorkQueue({ concurrency: 1, maxPending: 1 });
+      unregister();
+      registerTarget(undefined, queue);
+    });
+
+    it('should respond before the delivery is processed', async () => {
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => { release = resolve; });
+      mockWebhookHandler.handleWebhook.mockImplementation(async () => {
+        await released;
+        return null;
+      });
+      const handler = createWebhookHandler();
+      const res = createMockResponse();
+
+      await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+      expect(res.statusCode).toBe(200);
+      expect(queue.stats()).toMatchObject({ running: 1, processed: 0 });
+
+      release();
+      await queue.onIdle();
+
+      expect(mockWebhookHandler.handleWebhook).toHaveBeenCalledTimes(1);
+      expect(queue.stats().processed).toBe(1);
+    });
+
+    it('should answer 503 when the queue is full', async () => {
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => { release = resolve; });
+      mockWebhookHandler.handleWebhook.mockImplementation(async () => {
+        await released;
+        return null;
+      });
+      const handler = createWebhookHandler();
+      const responses = [createMockResponse(), createMockResponse(), createMockResponse()];
+
+      for (const res of responses) {
+        await handler(createMockRequest(body), res as unknown as ServerResponse);
+      }
+
+      expect(responses.map((res) => res.statusCode)).toEqual([200, 200, 503]);
+      expect(responses[2].headers['Retry-After']).toBe('5');
+
+      release();
+      await queue.onIdle();
+    });
+  });
+
+  describe('membership events', () => {
+    const membershipEnvelope: OpenClawEnvelope = {
+      id: 'membership-123',
+      kind: 'membership',
+      channel: 'webex',
+      conversationId: 'room-123',
+      author: { id: 'actor-123', isBot: false },
+      content: {
+        text: 'Bot was added to the space',
+        membership: { event: 'added', actorId: 'actor-123' },
+      },
+      metadata: {
+        roomType: 'group',
+        roomId: 'room-123',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        raw: {
+          id: 'membership-123',
+          roomId: 'room-123',
+          personId: 'bot-123',
+          personEmail: 'bot@example.com',
+          created: '2024-01-01T00:00:00.000Z',
+        },
+      },
+    };
+
+    let enqueueSystemEvent: ReturnType<typeof vi.fn>;
+    let dispatchReply: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      config = { ...config, webhookSecret: undefined };
+      enqueueSystemEvent = vi.fn();
+      dispatchReply = vi.fn();
+      setPluginRuntime({
+        system: { enqueueSystemEvent },
+        channel: { reply: { dispatchReplyWithBufferedBlockDispatcher: dispatchReply } },
+      } as unknown as PluginRuntime);
+      mockWebhookHandler.handleWebhook.mockResolvedValue(membershipEnvelope);
+    });
+
+    it('should enqueue a system event instead of dispatching a reply', async () => {
+      const handler = createWebhookHandler();
+      const res = createMockResponse();
+
+      await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+      expect(res.statusCode).toBe(200);
+      expect(enqueueSystemEvent).toHaveBeenCalledWith('Webex: Bot was added to the space', {
+        sessionKey: 'agent:main:webex:room-123',
+      });
+      expect(dispatchReply).not.toHaveBeenCalled();
+    });
+
+    it('should send the configured welcome message to group spaces', async () => {
+      config = { ...config, welcomeMessage: 'Hello, space!' };
+      unregister();
+      registerTarget();
+      const handler = createWebhookHandler();
+      const res = createMockResponse();
+
+      await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+      const sender = vi.mocked(WebexSender).mock.instances[0] as unknown as { send: ReturnType<typeof vi.fn> };
+      expect(sender.send).toHaveBeenCalledWith({
+        to: 'room-123',
+        content: { markdown: 'Hello, space!' },
+      });
+    });
+
+    it('should log rather than fail when the welcome message cannot be sent', async () => {
+      config = { ...config, welcomeMessage: 'Hello, space!' };
+      unregister();
+      registerTarget();
+      vi.mocked(WebexSender).mockImplementationOnce(function(this: unknown) {
+        (this as Record<string, unknown>).send = vi.fn().mockRejectedValue(new Error('Failed to send message: 403 Forbidden'));
+        return this as WebexSender;
+      });
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const handler = createWebhookHandler();
+      const res = createMockResponse();
+
+      await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+      expect(res.statusCode).toBe(200);
+      expect(enqueueSystemEvent).toHaveBeenCalled();
+      expect(error).toHaveBeenCalledWith('[webex:test] failed to send welcome message: Failed to send message: 403 Forbidden');
+    });
+
+    it('should not send a welcome message when the bot is removed', async () => {
+      config = { ...config, welcomeMessage: 'Hello, space!' };
+      unregister();
+      registerTarget();
+      mockWebhookHandler.handleWebhook.mockResolvedValue({
+        ...membershipEnvelope,
+        content: { text: 'Bot was removed from the space', membership: { event: 'removed', actorId: 'actor-123' } },
+      });
+      const handler = createWebhookHandler();
+      const res = createMockResponse();
+
+      await handler(createMockRequest(body), res as unknown as ServerResponse);
+
+      expect(WebexSender).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('webexPlugin.config.resolveAccount', () => {
+  it('should default groupPolicy to open', () => {
+    const account = webexPlugin.config.resolveAccount({
+      channels: { webex: { token: 'test-token', webhookUrl: 'https://example.com/webhook' } },
+    });
+
+    expect(account.config.groupPolicy).toBe('open');
+  });
+
+  it('should resolve groupPolicy and allowRooms for the default account', () => {
+    const account = webexPlugin.config.resolveAccount({
+      channels: {
+        webex: {
+          token: 'test-token',
+          webhookUrl: 'https://example.com/webhook',
+          groupPolicy: 'allowlist',
+          allowRooms: ['Engineering'],
+        },
+      },
+    });
+
+    expect(account.config.groupPolicy).toBe('allowlist');
+    expect(account.config.allowRooms).toEqual(['Engineering']);
+  });
+
+  it('should let named accounts override the section groupPolicy', () => {
+    const account = webexPlugin.config.resolveAccount(
+      {
+        channels: {
+          webex: {
+            token: 'test-token',
+            webhookUrl: 'https://example.com/webhook',
+            groupPolicy: 'deny',
+            accounts: { work: { groupPolicy: 'mention-only' } },
+          },
+        },
+      },
+      'work'
+    );
+
+    expect(account.config.groupPolicy).toBe('mention-only');
+  });
+
+  it('should fall back to channels.defaults.groupPolicy', () => {
+    const account = webexPlugin.config.resolveAccount({
+      channels: {
+        defaults: { groupPolicy: 'disabled' },
+        webex: { token: 'test-token', webhookUrl: 'https://example.com/webhook' },
+      },
+    });
+
+    expect(account.config.groupPolicy).toBe('deny');
+  });
+
+  it('should prefer the channel groupPolicy over channels.defaults', () => {
+    const account = webexPlugin.config.resolveAccount({
+      channels: {
+        defaults: { groupPolicy: 'allowlist' },
+        webex: { token: 'test-token', webhookUrl: 'https://example.com/webhook', groupPolicy: 'open' },
+      },
+    });
+
+    expect(account.config.groupPolicy).toBe('open');
+  });
+
+  it('should ignore unknown channels.defaults.groupPolicy values', () => {
+    const account = webexPlugin.config.resolveAccount({
+      channels: {
+        defaults: { groupPolicy: 'whatever' },
+        webex: { token: 'test-token', webhookUrl: 'https://example.com/webhook' },
+      },
+    });
+
+    expect(account.config.groupPolicy).toBe('open');
+  });
+
+  it('should count a websocket account without webhookUrl as configured', () => {
+    const account = webexPlugin.config.resolveAccount({
+      channels: { webex: { token: 'test-token', transport: 'websocket' } },
+    });
+
+    expect(account.configured).toBe(true);
+    expect(account.config.transport).toBe('websocket');
+  });
+
+  it('should let a named account pick its own transport', () => {
+    const account = webexPlugin.config.resolveAccount(
+      {
+        channels: {
+          webex: {
+            token: 'test-token',
+            webhookUrl: 'https://example.com/webhook',
+            accounts: { lockedDown: { transport: 'polling', polling: { maxIntervalMs: 30000 } } },
+          },
+        },
+      },
+      'lockedDown'
+    );
+
+    expect(account.config.transport).toBe('polling');
+    expect(account.config.polling).toEqual({ maxIntervalMs: 30000 });
+  });
+
+  it('should derive webhookUrl from publicBaseUrl', () => {
+    const cfg = {
+      channels: {
+        webex: {
+          token: 'test-token',
+          webhookUrl: 'https://example.com/webhooks/webex/default',
+          publicBaseUrl: 'https://bot.example.com/',
+          accounts: { work: {} },
+        },
+      },
+    };
+
+    expect(webexPlugin.config.resolveAccount(cfg).webhookUrl).toBe('https://example.com/webhooks/webex/default');
+    const work = webexPlugin.config.resolveAccount(cfg, 'work');
+    expect(work.configured).toBe(true);
+    expect(work.config.webhookUrl).toBe('https://bot.example.com/webhooks/webex/work');
+  });
+
+  it('should require webhookUrl for the webhook transport', () => {
+    const account = webexPlugin.config.resolveAccount({
+      channels: { webex: { token: 'test-token' } },
+    });
+
+    expect(account.configured).toBe(false);
+  });
+});
+
+describe('webexPlugin.gateway.startAccount', () => {
+  afterEach(() => {
+    setPluginRuntime(null as unknown as PluginRuntime);
+    vi.restoreAllMocks();
+  });
+
+  it('should coalesce a polled room\'s messages without holding up the poll', async () => {
+    let poller!: WebexPoller;
+    vi.spyOn(WebexPoller.prototype, 'start').mockImplementation(function(this: WebexPoller) {
+      poller = this;
+    });
+    vi.spyOn(WebexWebhookHandler.prototype, 'initialize').mockResolvedValue(undefined);
+    vi.spyOn(WebexWebhookHandler.prototype, 'handleMessage').mockImplementation(async (message: WebexMessage) => ({
+      id: message.id,
+      kind: 'message',
+      channel: 'webex',
+      conversationId: message.roomId,
+      author: { id: message.personId, isBot: false },
+      content: { text: message.text },
+      metadata: { roomType: 'direct', roomId: message.roomId, timestamp: message.created, raw: message },
+    }));
+    const dispatchReply = vi.fn().mockResolvedValue(undefined);
+    setPluginRuntime({
+      channel: { reply: { dispatchReplyWithBufferedBlockDispatcher: dispatchReply } },
+    } as unknown as PluginRuntime);
+    const account = webexPlugin.config.resolveAccount({
+      channels: { webex: { token: 'test-token', transport: 'polling', debounce: { windowMs: 50 } } },
+    });
+
+    const stop = await webexPlugin.gateway!.startAccount!({
+      account,
+      runtime: {} as PluginRuntime,
+      setStatus: vi.fn(),
+    });
+    const onMessage = (poller as unknown as { options: { onMessage(message: WebexMessage): Promise<void> } }).options.onMessage;
+    const message = (id: string): WebexMessage => ({
+      id,
+      roomId: 'room-123',
+      roomType: 'direct',
+      text: id,
+      personId: 'person-123',
+      personEmail: 'person@example.com',
+      created: '2024-01-01T00:00:00.000Z',
+    });
+
+    // Each message is accepted without waiting out the window
+    for (const id of ['a', 'b', 'c']) {
+      await onMessage(message(id));
+    }
+    expect(dispatchReply).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(dispatchReply).toHaveBeenCalledTimes(1));
+    expect(dispatchReply.mock.calls[0][0].ctx.Body).toBe('a\nb\nc');
+    await (stop as () => Promise<void>)();
+  });
+});
+
+describe('webexPlugin.gateway.startAccount cleanup', () => {
+  const cfg = {
+    channels: {
+      webex: {
+        token: 'test-token',
+        webhookUrl: 'https://example.com/webhooks/webex/default',
+        accounts: { work: { webhookUrl: 'https://example.com/webhooks/webex/work' } },
+      },
+    },
+  };
+
+  let deregister: MockInstance<WebexWebhookHandler['deregisterWebhooks']>;
+  const log = { info: vi.fn(), warn: vi.fn() };
+
+  beforeEach(() => {
+    vi.spyOn(WebexWebhookHandler.prototype, 'initialize').mockResolvedValue(undefined);
+    vi.spyOn(WebexWebhookHandler.prototype, 'registerWebhooks').mockResolvedValue([]);
+    vi.spyOn(WebhookReconciler.prototype, 'start').mockImplementation(() => {});
+    deregister = vi.spyOn(WebexWebhookHandler.prototype, 'deregisterWebhooks').mockResolvedValue([]);
+    log.info.mockClear();
+    log.warn.mockClear();
+  });
+
+  afterEach(() => {
+    setPluginRuntime(null as unknown as PluginRuntime);
+    vi.restoreAllMocks();
+  });
+
+  const startWork = async (reloaded: unknown) => {
+    setPluginRuntime({ config: { loadConfig: () => reloaded } } as unknown as PluginRuntime);
+    return webexPlugin.gateway!.startAccount!({
+      account: webexPlugin.config.resolveAccount(cfg, 'work'),
+      runtime: {} as PluginRuntime,
+      setStatus: vi.fn(),
+      log,
+    }) as Promise<() => Promise<void>>;
+  };
+
+  it('should remove the webhooks of an account deleted from the config', async () => {
+    const stop = await startWork(webexPlugin.config.deleteAccount!({ cfg, accountId: 'work' }));
+
+    await stop();
+
+    expect(deregister).toHaveBeenCalledTimes(1);
+    expect(deregister.mock.contexts[0].getWebhookNamePrefix()).toBe('OpenClaw (work)');
+    expect(log.info).toHaveBeenCalledWith('[work] removed 0 webhooks of deleted account');
+  });
+
+  it('should keep the webhooks of an account that is still configured', async () => {
+    const stop = await startWork(cfg);
+
+    await stop();
+
+    expect(deregister).not.toHaveBeenCalled();
+  });
+
+  it('should point at the prune command when the webhooks cannot be removed', async () => {
+    deregister.mockRejectedValue(new Error('Failed to list webhooks: 401 Unauthorized'));
+    const stop = await startWork({ channels: { webex: { token: 'test-token' } } });
+
+    await stop();
+
+    expect(log.warn).toHaveBeenCalledWith(
+      '[work] failed to remove webhooks: Failed to list webhooks: 401 Unauthorized; ' +
+        'run "openclaw webex webhooks prune" to remove what is left'
+    );
+  });
+});
+
+describe('webexPlugin.config.deleteAccount', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should only remove the account from the config', () => {
+    const deregister = vi.spyOn(WebexWebhookHandler.prototype, 'deregisterWebhooks').mockResolvedValue([]);
+    const cfg = {
+      channels: {
+        webex: {
+          token: 'test-token',
+          webhookUrl: 'https://example.com/webhooks/webex/default',
+          accounts: { work: { webhookUrl: 'https://example.com/webhooks/webex/work' } },
+        },
+      },
+    };
+
+    const updated = webexPlugin.config.deleteAccount!({ cfg, accountId: 'work' }) as typeof cfg;
+
+    expect(updated.channels.webex.accounts).toEqual({});
+    expect(deregister).not.toHaveBeenCalled();
+  });
+
+  it('should strip every default account setting but keep shared ones and named accounts', () => {
+    const cfg = {
+      channels: {
+        webex: {
+          enabled: true,
+          token: 'test-token',
+          publicBaseUrl: 'https://example.com',
+          transport: 'websocket',
+          polling: { minIntervalMs: 5000 },
+          dedupe: { ttlMs: 60_000 },
+          queue: { concurrency: 2 },
+          debounce: { windowMs: 500 },
+          deregisterOnStop: true,
+          apiBaseUrl: 'https://webexapis.example.com/v1',
+          maxRetries: 5,
+          accounts: { work: { token: 'work-token' } },
+        },
+      },
+    };
+
+    const updated = webexPlugin.config.deleteAccount!({ cfg, accountId: 'default' }) as typeof cfg;
+
+    expect(updated.channels.webex).toEqual({
+      enabled: true,
+      apiBaseUrl: 'https://webexapis.example.com/v1',
+      maxRetries: 5,
+      accounts: { work: { token: 'work-token' } },
+    });
+  });
+});
+
+describe('webexPlugin.pairing', () => {
+  const cfg = {
+    channels: {
+      webex: { token: 'test-token', webhookUrl: 'https://example.com/webhook', dmPolicy: 'pairing' },
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should greet an approved sender by direct message', async () => {
+    await webexPlugin.pairing!.notifyApproval!({ cfg, id: 'person-123' });
+
+    const sender = vi.mocked(WebexSender).mock.instances[0] as unknown as { sendDirectById: ReturnType<typeof vi.fn> };
+    expect(vi.mocked(WebexSender)).toHaveBeenCalledWith(expect.objectContaining({ token: 'test-token' }));
+    expect(sender.sendDirectById).toHaveBeenCalledWith('person-123', expect.stringContaining('approved'));
+  });
+
+  it('should fail to notify without a configured account', async () => {
+    await expect(webexPlugin.pairing!.notifyApproval!({ cfg: { channels: { webex: {} } }, id: 'person-123' }))
+      .rejects.toThrow('No configured Webex account');
+  });
+
+  it('should point the security approve hint at the pairing CLI', () => {
+    const account = webexPlugin.config.resolveAccount(cfg);
+
+    expect(webexPlugin.security!.resolveDmPolicy!({ account }).approveHint).toContain('openclaw pairing approve webex');
+  });
+});
+
+describe('webexPlugin.status.collectStatusIssues', () => {
+  it('should report channel errors, webhook drift and misrouted webhooks', () => {
+    const issues = webexPlugin.status!.collectStatusIssues!([
+      { accountId: 'default', lastError: 'boom', webhookIssues: [] },
+      { accountId: 'work', lastError: null, webhookIssues: ['Recreated missing webhook messages/created (webhook-1)'] },
+      { accountId: 'idle' },
+      {
+        accountId: 'misrouted',
+        webhookUrlIssue: 'webhookUrl path "/webhooks/webex" does not end with the webhook route "/webhooks/webex/misrouted"',
+        webhookSelfTest: { ok: false, url: 'https://example.com/webhooks/webex', error: 'HTTP 404: Not Found', elapsedMs: 5, checkedAt: '2024-01-01T00:00:00.000Z' },
+      },
+    ]);
+
+    expect(issues).toEqual([
+      { channel: 'webex', accountId: 'default', kind: 'runtime', message: 'Channel error: boom' },
+      {
+        channel: 'webex',
+        accountId: 'work',
+        kind: 'runtime',
+        message: 'Recreated missing webhook messages/created (webhook-1)',
+      },
+      {
+        channel: 'webex',
+        accountId: 'misrouted',
+        kind: 'config',
+        message: 'webhookUrl path "/webhooks/webex" does not end with the webhook route "/webhooks/webex/misrouted"',
+      },
+      {
+        channel: 'webex',
+        accountId: 'misrouted',
+        kind: 'runtime',
+        message: 'Webhook self-test through https://example.com/webhooks/webex failed: HTTP 404: Not Found',
+      },
+    ]);
+  });
+});
+
+describe('webexPlugin.security', () => {
+  it.each([
+    ['allowlisted', 'allowlist'],
+    ['allowlist', 'allowlist'],
+    ['pairing', 'pairing'],
+  ])('should resolve dmPolicy %s to %s', (dmPolicy, expected) => {
+    const account = webexPlugin.config.resolveAccount({
+      channels: { webex: { token: 'test-token', webhookUrl: 'https://example.com/webhook', dmPolicy } },
+    });
+
+    expect(webexPlugin.security!.resolveDmPolicy!({ account }).policy).toBe(expected);
+  });
+
+  it('should normalize allowFrom entries', () => {
+    expect(webexPlugin.config.formatAllowFrom!({ allowFrom: [' User@Example.COM '] })).toEqual(['user@example.com']);
+  });
+});
+
+describe('webexPlugin.outbound.sendMedia', () => {
+  const cfg = {
+    channels: { webex: { token: 'test-token', webhookUrl: 'https://example.com/webhook' } },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const lastSend = () => {
+    const sender = vi.mocked(WebexSender).mock.instances[0] as unknown as { send: ReturnType<typeof vi.fn> };
+    return sender.send.mock.calls[0][0];
+  };
+
+  it('should pass remote URLs for Webex to fetch', async () => {
+    await webexPlugin.outbound.sendMedia!({ cfg, to: 'room-123', text: 'chart', mediaUrl: 'https://example.com/chart.png' });
+
+    expect(lastSend().content).toEqual({ markdown: 'chart', files: ['https://example.com/chart.png'], upload: undefined });
+  });
+
+  it('should upload local paths', async () => {
+    await webexPlugin.outbound.sendMedia!({ cfg, to: 'room-123', mediaUrl: '/tmp/openclaw/chart.png' });
+
+    expect(lastSend().content).toEqual({ markdown: undefined, files: undefined, upload: { data: '/tmp/openclaw/chart.png' } });
+  });
+});
+
+describe('webexPlugin.outbound.sendText', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const sentMarkdown = () => {
+    const sender = vi.mocked(WebexSender).mock.instances[0] as unknown as { send: ReturnType<typeof vi.fn> };
+    return sender.send.mock.calls[0][0].content.markdown;
+  };
+
+  it('should translate markdown for Webex', async () => {
+    const cfg = { channels: { webex: { token: 'test-token', webhookUrl: 'https://example.com/webhook' } } };
+
+    await webexPlugin.outbound.sendText({ cfg, to: 'room-123', text: '- [x] shipped' });
+
+    expect(sentMarkdown()).toBe('- ✅ shipped');
+  });
+
+  it('should use the account markdown settings', async () => {
+    const cfg = {
+      channels: {
+        webex: {
+          token: 'test-token',
+          webhookUrl: 'https://example.com/webhook',
+          accounts: { work: { markdown: { enabled: false } } },
+        },
+      },
+    };
+
+    await webexPlugin.outbound.sendText({ cfg, to: 'room-123', text: '- [x] shipped', accountId: 'work' });
+
+    expect(sentMarkdown()).toBe('- [x] shipped');
+  });
+});
+
+describe('webexPlugin.actions', () => {
+  const cfg = { channels: { webex: { token: 'test-token', webhookUrl: 'https://example.com/webhook' } } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should offer edits once an account is configured', () => {
+    expect(webexPlugin.actions!.listActions!({ cfg })).toEqual(['edit']);
+    expect(webexPlugin.actions!.listActions!({ cfg: {} })).toEqual([]);
+    expect(webexPlugin.actions!.supportsAction!({ action: 'edit' })).toBe(true);
+    expect(webexPlugin.actions!.supportsAction!({ action: 'send' })).toBe(false);
+  });
+
+  it('should edit the message with translated markdown', async () => {
+    const result = await webexPlugin.actions!.handleAction!({
+      channel: 'webex',
+      action: 'edit',
+      cfg,
+      params: { to: 'room-123', messageId: 'sent-123', message: '- [ ] todo' },
+    });
+
+    const sender = vi.mocked(WebexSender).mock.instances[0] as unknown as { editMessage: ReturnType<typeof vi.fn> };
+    expect(sender.editMessage).toHaveBeenCalledWith('sent-123', 'room-123', '- ⬜ todo');
+    expect(result.details).toEqual({ ok: true, channel: 'webex', messageId: 'sent-123', roomId: 'room-123' });
+  });
+
+  it('should reject an edit without a message ID', async () => {
+    await expect(webexPlugin.actions!.handleAction!({
+      channel: 'webex',
+      action: 'edit',
+      cfg,
+      params: { to: 'room-123', message: 'x' },
+    })).rejects.toThrow('Editing a Webex message needs messageId, message and to');
+  });
+});
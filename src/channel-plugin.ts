@@ -4,8 +4,8 @@
  * Implements the ChannelPlugin interface for OpenClaw's plugin system.
  */
 
+import { randomBytes } from "node:crypto";
 import type { IncomingMessage, ServerResponse } from "node:http";
-import crypto from 'crypto';
 
 import type {
   ChannelPlugin,
@@ -13,9 +13,38 @@ import type {
 } from "openclaw/plugin-sdk";
 
 import { WebexSender } from "./send";
-import { WebexWebhookHandler, WebhookValidationError } from "./webhook";
-import type { WebexChannelConfig, WebexWebhookPayload } from "./types";
-import { sign } from "node:crypto";
+import { WebexWebhookHandler, verifyWebhookSignature } from "./webhook";
+import { PairingStore, defaultAllowFromStorePath, defaultPairingStorePath } from "./pairing";
+import { normalizeDmPolicy, normalizeAllowEntry } from "./policy";
+import { WebexMediaDownloader, removeDownloadedMedia } from "./media";
+import { chunkMarkdown, WEBEX_MAX_MESSAGE_BYTES } from "./chunker";
+import { toWebexMarkdown } from "./markdown";
+import { WebexStreamingReply } from "./streaming";
+import { DedupeStore, defaultDedupeStorePath, webhookDedupeKey } from "./dedupe";
+import { KeyedWorkQueue } from "./queue";
+import { Debouncer, mergeMessageEnvelopes } from "./conversation";
+import { WebhookReconciler } from "./reconciler";
+import { MercuryClient } from "./mercury";
+import { WebexPoller, defaultPollCursorPath, messageToWebhookPayload } from "./poller";
+import { SELF_TEST_HEADER, checkWebhookUrl, deriveWebhookUrl, pingWebhookUrl, webhookRoutePath } from "./route";
+import type { WebhookSelfTestResult } from "./route";
+import type { WebexDownloadedMedia } from "./media";
+import type {
+  WebexChannelConfig,
+  WebexWebhookPayload,
+  WebexMarkdownConfig,
+  WebexStreamingConfig,
+  WebexDedupeConfig,
+  WebexQueueConfig,
+  WebexDebounceConfig,
+  WebexPollingConfig,
+  WebexMessage,
+  OpenClawEnvelope,
+  OpenClawOutboundMessage,
+  DmPolicy,
+  GroupPolicy,
+  WebexTransport,
+} from "./types";
 
 // Store the plugin runtime for use in HTTP handlers
 let pluginRuntime: PluginRuntime | null = null;
@@ -24,6 +53,23 @@ export function setPluginRuntime(runtime: PluginRuntime): void {
   pluginRuntime = runtime;
 }
 
+// Pairing requests and approvals, shared by the webhook path and the pairing adapter
+let pairingStore: PairingStore | null = null;
+
+function getPairingStore(): PairingStore {
+  if (!pairingStore) {
+    pairingStore = new PairingStore({
+      filePath: defaultPairingStorePath(),
+      allowFromPath: defaultAllowFromStorePath(),
+    });
+  }
+  return pairingStore;
+}
+
+export function setPairingStore(store: PairingStore): void {
+  pairingStore = store;
+}
+
 /** Resolved account configuration */
 export interface ResolvedWebexAccount {
   accountId: string;
@@ -50,12 +96,30 @@ interface WebexChannelSection {
   name?: string;
   token?: string;
   webhookUrl?: string;
+  publicBaseUrl?: string;
+  transport?: WebexTransport;
+  deviceRegistrationUrl?: string;
+  polling?: WebexPollingConfig;
   webhookSecret?: string;
-  dmPolicy?: "allow" | "deny" | "allowlisted" | "pairing";
+  webhookNamePrefix?: string;
+  dmPolicy?: DmPolicy;
   allowFrom?: string[];
+  groupPolicy?: GroupPolicy;
+  allowRooms?: string[];
+  requireMention?: boolean;
   apiBaseUrl?: string;
   maxRetries?: number;
   retryDelayMs?: number;
+  welcomeMessage?: string;
+  mediaMaxBytes?: number;
+  mediaAllowedTypes?: string[];
+  markdown?: WebexMarkdownConfig;
+  streaming?: WebexStreamingConfig;
+  dedupe?: WebexDedupeConfig;
+  queue?: WebexQueueConfig;
+  debounce?: WebexDebounceConfig;
+  webhookReconcileIntervalMs?: number;
+  deregisterOnStop?: boolean;
   accounts?: Record<string, WebexAccountConfig>;
 }
 
@@ -64,25 +128,90 @@ interface WebexAccountConfig {
   name?: string;
   token?: string;
   webhookUrl?: string;
+  publicBaseUrl?: string;
+  transport?: WebexTransport;
+  deviceRegistrationUrl?: string;
+  polling?: WebexPollingConfig;
   webhookSecret?: string;
-  dmPolicy?: "allow" | "deny" | "allowlisted" | "pairing";
+  webhookNamePrefix?: string;
+  dmPolicy?: DmPolicy;
   allowFrom?: string[];
+  groupPolicy?: GroupPolicy;
+  allowRooms?: string[];
+  requireMention?: boolean;
   apiBaseUrl?: string;
   maxRetries?: number;
   retryDelayMs?: number;
+  welcomeMessage?: string;
+  mediaMaxBytes?: number;
+  mediaAllowedTypes?: string[];
+  markdown?: WebexMarkdownConfig;
+  streaming?: WebexStreamingConfig;
+  dedupe?: WebexDedupeConfig;
+  queue?: WebexQueueConfig;
+  debounce?: WebexDebounceConfig;
+  webhookReconcileIntervalMs?: number;
+  deregisterOnStop?: boolean;
 }
 
 const DEFAULT_ACCOUNT_ID = "default";
 
+/**
+ * Top-level keys that outlive deleting the default account. Every other
+ * top-level key configures the default account and is removed with it.
+ */
+const SHARED_SECTION_KEYS = new Set(["enabled", "name", "apiBaseUrl", "maxRetries", "retryDelayMs", "accounts"]);
+
 /** Webhook target registration for HTTP handler */
 type WebexWebhookTarget = {
   account: ResolvedWebexAccount;
   config: WebexChannelConfig;
   webhookHandler: WebexWebhookHandler;
+  /** Suppresses redelivered webhooks; every delivery is processed when absent */
+  dedupe?: DedupeStore;
+  /** Processes deliveries after the response; they are processed inline when absent */
+  queue?: KeyedWorkQueue;
+  /** Coalesces rapid-fire messages from one sender; each is a turn of its own when absent */
+  debouncer?: Debouncer<WebexWebhookPayload>;
+  /** Answers a startup ping through the public URL carrying this nonce */
+  selfTestNonce?: string;
 };
 
+/** Running webhook reconcilers, keyed by account ID */
+const webhookReconcilers = new Map<string, WebhookReconciler>();
+
+/** How long after startup the public webhook URL is pinged */
+const WEBHOOK_SELF_TEST_DELAY_MS = 5_000;
+
+/** Outcome of each account's startup ping through its public webhook URL */
+const webhookSelfTests = new Map<string, WebhookSelfTestResult>();
+
 const webhookTargets = new Map<string, WebexWebhookTarget>();
 
+/** Targets fed by the websocket and polling transports, keyed by account ID */
+const transportTargets = new Map<string, WebexWebhookTarget>();
+
+/** Messages the polling transport already fetched, keyed by their stand-in payload */
+const prefetchedMessages = new WeakMap<WebexWebhookPayload, WebexMessage>();
+
+/** Replies being dispatched, keyed by account and inbound message ID */
+const inflightReplies = new Map<string, AbortController>();
+
+/**
+ * Cancel the reply to a message, if one is still being dispatched.
+ * Returns whether a reply was cancelled.
+ */
+function cancelInflightReply(accountId: string, messageId: string): boolean {
+  const key = `${accountId}:${messageId}`;
+  const controller = inflightReplies.get(key);
+  if (!controller) {
+    return false;
+  }
+  controller.abort();
+  inflightReplies.delete(key);
+  return true;
+}
+
 function normalizeWebhookPath(raw: string): string {
   const trimmed = raw.trim();
   if (!trimmed) return "/";
@@ -105,48 +234,420 @@ export function registerWebexWebhookTarget(
 }
 
 /**
- * Verify webhook signature using HMAC-SHA1
+ * Read and parse a JSON request body. When a secret is given, the raw bytes
+ * are checked against the X-Spark-Signature header before parsing.
  */
-function calculateSignature(body: Buffer<ArrayBufferLike> | string, secret?: string): string {
-  if (!secret) {
-    return "";
-  }
-  return crypto.createHmac('sha1', secret).update(body).digest('hex') as string;
-}
-
-
-async function readJsonBody(req: IncomingMessage, maxBytes: number, secret?: string): Promise<{ ok: boolean; value?: unknown; signature: string; error?: string }> {
+async function readJsonBody(
+  req: IncomingMessage,
+  maxBytes: number,
+  secret?: string,
+  signature?: string
+): Promise<{ ok: boolean; value?: unknown; error?: string }> {
   const chunks: Buffer[] = [];
   let total = 0;
   return await new Promise((resolve) => {
     req.on("data", (chunk: Buffer) => {
       total += chunk.length;
       if (total > maxBytes) {
-        resolve({ ok: false, error: "payload too large", signature: "" });
+        resolve({ ok: false, error: "payload too large" });
         req.destroy();
         return;
       }
       chunks.push(chunk);
     });
     req.on("end", () => {
+      const raw = Buffer.concat(chunks);
+      if (secret && !verifyWebhookSignature(raw, signature, secret)) {
+        resolve({ ok: false, error: "invalid signature" });
+        return;
+      }
       try {
-        const concatedChunks = Buffer.concat(chunks)
-        const body = concatedChunks.toString("utf-8");
-        const parsed = JSON.parse(body);
-        resolve({
-          ok: true, value: parsed,
-          signature: calculateSignature(concatedChunks, secret),
-        });
+        resolve({ ok: true, value: JSON.parse(raw.toString("utf-8")) });
       } catch {
-        resolve({ ok: false, error: "invalid json", signature: "" });
+        resolve({ ok: false, error: "invalid json" });
       }
     });
     req.on("error", (err) => {
-      resolve({ ok: false, error: err.message, signature: "" });
+      resolve({ ok: false, error: err.message });
     });
   });
 }
 
+function bodyErrorStatus(error?: string): number {
+  switch (error) {
+    case "payload too large":
+      return 413;
+    case "invalid signature":
+      return 401;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * Forward a bot membership change to OpenClaw as a system event and greet
+ * group spaces the bot has just joined.
+ */
+async function handleMembershipEvent(
+  envelope: OpenClawEnvelope,
+  account: ResolvedWebexAccount
+): Promise<void> {
+  enqueueSystemEvent(envelope, account, `Webex: ${envelope.content.text}`);
+
+  const welcomeMessage = account.config.welcomeMessage;
+  if (
+    welcomeMessage &&
+    envelope.content.membership?.event === "added" &&
+    envelope.metadata.roomType === "group"
+  ) {
+    // A failed greeting must not fail the membership event
+    try {
+      const sender = new WebexSender(account.config);
+      await sender.send({
+        to: envelope.conversationId,
+        content: { markdown: welcomeMessage },
+      });
+    } catch (err) {
+      console.error(
+        `[webex:${account.accountId}] failed to send welcome message: ${err instanceof Error ? err.message : err}`
+      );
+    }
+  }
+}
+
+/**
+ * Tell the agent about something that happened in a conversation, without
+ * starting a turn. It sees the event with the session's next message.
+ */
+function enqueueSystemEvent(envelope: OpenClawEnvelope, account: ResolvedWebexAccount, text: string): void {
+  // enqueueSystemEvent is not part of the published PluginRuntime types
+  const runtime = pluginRuntime as (PluginRuntime & {
+    system?: { enqueueSystemEvent?: (text: string, opts: { sessionKey: string }) => void };
+  }) | null;
+  const enqueue = runtime?.system?.enqueueSystemEvent;
+  if (enqueue) {
+    enqueue(text, { sessionKey: `agent:main:webex:${envelope.conversationId}` });
+  } else {
+    console.warn(`[webex:${account.accountId}] enqueueSystemEvent not available in plugin runtime`);
+  }
+}
+
+/**
+ * Read a trimmed, non-empty string parameter of a message action
+ */
+function readStringParam(params: Record<string, unknown>, key: string): string | undefined {
+  const value = params[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Wrap a message action's outcome the way OpenClaw's tools report results
+ */
+function actionResult(payload: Record<string, unknown>) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(payload, null, 2) }],
+    details: payload,
+  };
+}
+
+/**
+ * Message content for an outbound file. Remote URLs are fetched by Webex;
+ * local paths are uploaded by us.
+ */
+function mediaContent(mediaUrl: string): Pick<OpenClawOutboundMessage["content"], "files" | "upload"> {
+  return /^https?:\/\//i.test(mediaUrl) ? { files: [mediaUrl] } : { upload: { data: mediaUrl } };
+}
+
+/**
+ * Download an envelope's file attachments so the agent can read them.
+ * Files over the size limit or of a disallowed type are skipped.
+ */
+async function downloadInboundMedia(
+  envelope: OpenClawEnvelope,
+  account: ResolvedWebexAccount
+): Promise<WebexDownloadedMedia[]> {
+  const files = (envelope.content.attachments ?? []).filter((attachment) => attachment.type === "file" && attachment.url);
+  if (files.length === 0) {
+    return [];
+  }
+
+  const downloader = new WebexMediaDownloader(account.config);
+  const media: WebexDownloadedMedia[] = [];
+
+  for (const attachment of files) {
+    try {
+      const downloaded = await downloader.download(attachment.url!);
+      attachment.name = downloaded.fileName;
+      attachment.contentType = downloaded.contentType;
+      attachment.path = downloaded.path;
+      attachment.size = downloaded.size;
+      media.push(downloaded);
+    } catch (err) {
+      console.warn(
+        `[webex:${account.accountId}] skipped attachment ${attachment.url}: ${err instanceof Error ? err.message : err}`
+      );
+    }
+  }
+
+  return media;
+}
+
+/**
+ * Process verified webhook deliveries: normalize them and dispatch the agent
+ * reply. Several deliveries are coalesced messages from one sender and make
+ * a single agent turn. Runs inline or on the target's work queue.
+ */
+async function processWebhook(payloads: WebexWebhookPayload[], target: WebexWebhookTarget): Promise<void> {
+  const { account, webhookHandler } = target;
+
+  const envelopes: OpenClawEnvelope[] = [];
+  for (const payload of payloads) {
+    const prefetched = prefetchedMessages.get(payload);
+    const normalized = prefetched
+      ? await webhookHandler.handleMessage(prefetched)
+      : await webhookHandler.handleWebhook(payload);
+    if (normalized) {
+      envelopes.push(normalized);
+    }
+  }
+  const envelope = envelopes.length > 0 ? mergeMessageEnvelopes(envelopes) : null;
+
+  if (envelope?.kind === "membership") {
+    await handleMembershipEvent(envelope, account);
+  } else if (envelope?.kind === "messageDeleted") {
+    if (cancelInflightReply(account.accountId, envelope.id)) {
+      console.info(`[webex:${account.accountId}] cancelled reply to deleted message ${envelope.id}`);
+    }
+    enqueueSystemEvent(envelope, account, `Webex: message ${envelope.id} was deleted`);
+  } else if (envelope && pluginRuntime) {
+    // Load config using the plugin runtime (cast to any for internal API access)
+    const runtime = pluginRuntime as any;
+    const cfg = runtime.config?.loadConfig?.() ?? {};
+    const media = await downloadInboundMedia(envelope, account);
+
+    // Downloads are only needed for this turn; delete them once it is done
+    try {
+      // Build the context payload for OpenClaw's message pipeline
+      const ctxPayload = {
+        Body: envelope.content.text ?? "",
+        RawBody: envelope.content.text ?? "",
+        CommandBody: envelope.content.text ?? "",
+        From: `webex:${envelope.author.id}`,
+        To: `webex:${envelope.conversationId}`,
+        SessionKey: `agent:main:webex:${envelope.conversationId}`,
+        AccountId: account.accountId,
+        ChatType: envelope.metadata.roomType === "direct" ? "direct" : "group",
+        SenderName: envelope.author.displayName ?? envelope.author.email ?? envelope.author.id,
+        SenderId: envelope.author.id,
+        Provider: "webex",
+        Surface: "webex",
+        MessageSid: envelope.id,
+        // Set when the sender edited a message, so the agent can re-answer it
+        MessageEdited: envelope.kind === "messageEdited",
+        Timestamp: envelope.metadata.timestamp,
+        OriginatingChannel: "webex",
+        OriginatingTo: `webex:${envelope.conversationId}`,
+        MessageThreadId: envelope.metadata.parentId,
+        WasMentioned: envelope.metadata.wasMentioned ?? false,
+        Mentions: envelope.metadata.mentions ?? [],
+        // Adaptive Card submission: inputs plus the ID of the card message
+        CardAction: envelope.content.action,
+        // Downloaded file attachments, first one in the singular fields
+        MediaPath: media[0]?.path,
+        MediaType: media[0]?.contentType,
+        MediaPaths: media.length > 0 ? media.map((item) => item.path) : undefined,
+        MediaTypes: media.length > 0 ? media.map((item) => item.contentType) : undefined,
+      };
+
+      // Use the plugin runtime's dispatch function (cast to any for internal API)
+      const dispatchReply = runtime.channel?.reply?.dispatchReplyWithBufferedBlockDispatcher;
+
+      if (dispatchReply) {
+        const replyKey = `${account.accountId}:${envelope.id}`;
+        const controller = new AbortController();
+        inflightReplies.set(replyKey, controller);
+
+        // Create a sender for replies
+        const sender = new WebexSender(account.config);
+        const stream = account.config.streaming?.enabled
+          ? new WebexStreamingReply(sender, {
+              to: envelope.conversationId,
+              parentId: envelope.metadata.parentId,
+              markdown: account.config.markdown,
+              editIntervalMs: account.config.streaming.editIntervalMs,
+            })
+          : null;
+
+        await dispatchReply({
+          ctx: ctxPayload,
+          cfg,
+          dispatcherOptions: {
+            deliver: async (payload: { text?: string; media?: string }) => {
+              if (controller.signal.aborted) {
+                return;
+              }
+              if (payload.media) {
+                // Media goes out as its own message, with any text as the caption
+                await sender.send({
+                  to: envelope.conversationId,
+                  content: {
+                    markdown: payload.text ? toWebexMarkdown(payload.text, account.config.markdown) : undefined,
+                    ...mediaContent(payload.media),
+                  },
+                  parentId: envelope.metadata.parentId,
+                });
+              } else if (payload.text && stream) {
+                await stream.push(payload.text);
+              } else if (payload.text) {
+                await sender.send({
+                  to: envelope.conversationId,
+                  content: { markdown: toWebexMarkdown(payload.text, account.config.markdown) },
+                  parentId: envelope.metadata.parentId,
+                });
+              }
+            },
+            onError: (err: Error) => {
+              console.error(`[webex:${account.accountId}] reply dispatch error: ${err.message}`);
+            },
+          },
+          replyOptions: { abortSignal: controller.signal },
+        }).finally(() => {
+          if (inflightReplies.get(replyKey) === controller) {
+            inflightReplies.delete(replyKey);
+          }
+        });
+
+        try {
+          await stream?.finish();
+        } catch (err) {
+          console.error(
+            `[webex:${account.accountId}] streaming reply error: ${err instanceof Error ? err.message : err}`
+          );
+        }
+      } else {
+        console.warn(`[webex:${account.accountId}] dispatchReply not available in plugin runtime`);
+      }
+    } finally {
+      await removeDownloadedMedia(media);
+    }
+  }
+}
+
+/**
+ * Process payloads on the target's work queue, one room at a time, or
+ * inline when it has none. Resolves to false when the queue is full.
+ */
+async function dispatchPayloads(items: WebexWebhookPayload[], target: WebexWebhookTarget): Promise<boolean> {
+  const roomId = items[0].data?.roomId ?? "";
+  if (!target.queue) {
+    await processWebhook(items, target);
+    return true;
+  }
+  return target.queue.enqueue(roomId, () => processWebhook(items, target));
+}
+
+/**
+ * Hand a closed debounce window's batch on for processing. The deliveries
+ * were acknowledged long ago, so failures can only be logged.
+ */
+function flushCoalesced(batch: WebexWebhookPayload[], target: WebexWebhookTarget): void {
+  const { account, dedupe } = target;
+  const release = () => {
+    if (dedupe) {
+      const keys = batch.map(webhookDedupeKey).filter((key): key is string => key !== null);
+      void Promise.all(keys.map((key) => dedupe.release(key)));
+    }
+  };
+
+  dispatchPayloads(batch, target).then(
+    (queued) => {
+      if (!queued) {
+        console.warn(`[webex:${account.accountId}] work queue full, dropped ${batch.length} coalesced messages`);
+        release();
+      }
+    },
+    (err) => {
+      console.error(`[webex:${account.accountId}] webhook error: ${err instanceof Error ? err.message : err}`);
+      release();
+    }
+  );
+}
+
+/**
+ * Run a verified webhook payload through dedupe, coalescing and the work
+ * queue. Shared by every transport. Resolves to "busy" when the queue is
+ * full, so the caller can have the event redelivered.
+ */
+async function acceptWebhookPayload(
+  payload: WebexWebhookPayload,
+  target: WebexWebhookTarget
+): Promise<"ok" | "duplicate" | "coalesced" | "busy"> {
+  const { account, dedupe, queue, debouncer } = target;
+  let dedupeKey: string | null = null;
+  const release = async () => {
+    if (dedupe && dedupeKey) {
+      await dedupe.release(dedupeKey);
+    }
+  };
+
+  try {
+    // Acknowledge redeliveries without processing them again
+    const key = webhookDedupeKey(payload);
+    if (dedupe && key) {
+      if (!(await dedupe.claim(key))) {
+        console.debug(`[webex:${account.accountId}] ignoring duplicate delivery of ${key}`);
+        return "duplicate";
+      }
+      dedupeKey = key;
+    }
+
+    // A deletion only cancels a reply in progress, so it must not wait
+    // behind that reply in the room's queue
+    if (payload.resource === "messages" && payload.event === "deleted") {
+      await processWebhook([payload], target);
+      return "ok";
+    }
+
+    // An edit supersedes the reply to the original message. Cancel it
+    // here, since the edit itself queues behind that reply
+    if (payload.resource === "messages" && payload.event === "updated" && payload.data?.id) {
+      if (cancelInflightReply(account.accountId, payload.data.id)) {
+        console.info(`[webex:${account.accountId}] cancelled reply to edited message ${payload.data.id}`);
+      }
+    }
+
+    // Coalesce rapid-fire messages from one sender into a single turn. The
+    // delivery is acknowledged now and the batch queued when the window
+    // closes, so a full queue has to be caught up front
+    if (debouncer && payload.resource === "messages" && payload.event === "created") {
+      if (queue?.isFull()) {
+        console.warn(`[webex:${account.accountId}] work queue full, deferring webhook to redelivery`);
+        await release();
+        return "busy";
+      }
+      const joined = debouncer.add(
+        `${payload.data.roomId}:${payload.data.personId}`,
+        payload,
+        (batch) => flushCoalesced(batch, target)
+      );
+      return joined ? "coalesced" : "ok";
+    }
+
+    // Acknowledge right away and process on the queue, so slow agent turns
+    // never time out Webex's delivery
+    if (!(await dispatchPayloads([payload], target))) {
+      console.warn(`[webex:${account.accountId}] work queue full, deferring webhook to redelivery`);
+      await release();
+      return "busy";
+    }
+    return "ok";
+  } catch (err) {
+    // Let redelivery retry the failed event
+    await release();
+    throw err;
+  }
+}
+
 /**
  * Create the webhook handler with access to the plugin runtime.
  * Returns a handler function that can process incoming Webex webhook requests.
@@ -175,92 +676,45 @@ export function createWebhookHandler(): (req: IncomingMessage, res: ServerRespon
 
     const { account, webhookHandler } = target;
 
+    // Startup self-test: prove the public URL reaches this route, nothing to process
+    const selfTest = req.headers[SELF_TEST_HEADER];
+    if (selfTest !== undefined) {
+      const matched = Boolean(target.selfTestNonce) && selfTest === target.selfTestNonce;
+      res.statusCode = matched ? 200 : 403;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(matched ? { ok: true, selfTest } : { error: "unknown self-test" }));
+      return true;
+    }
+
     try {
       const signature = req.headers["x-spark-signature"] as string | undefined;
       const secret = webhookHandler.getConfig().webhookSecret;
 
-      const body = await readJsonBody(req, 1024 * 1024, secret);
+      const body = await readJsonBody(req, 1024 * 1024, secret, signature);
       if (!body.ok) {
-        res.statusCode = body.error === "payload too large" ? 413 : 400;
+        if (body.error === "invalid signature") {
+          console.warn(`[webex:${account.accountId}] rejected webhook with invalid signature`);
+        }
+        res.statusCode = bodyErrorStatus(body.error);
         res.end(body.error ?? "invalid payload");
         return true;
       }
 
-      // Disable signature verification as the expected signature from the header cannot match the signature calculated from the body
-      // console.log(' payload signature:', body.signature);
-      // console.log('expected signature:', signature);
-      // if !crypto.timingSafeEqual(
-      //   Buffer.from(signature),
-      //   Buffer.from(expectedSignature)
-      // ) {
-      //   console.error('Invalid webhook signature:', signature);
-      //   throw new WebhookValidationError('Invalid webhook signature');
-      // }
-
-      const payload = body.value as WebexWebhookPayload;
-
-      const envelope = await webhookHandler.handleWebhook(payload);
-
-      if (envelope && pluginRuntime) {
-        // Load config using the plugin runtime (cast to any for internal API access)
-        const runtime = pluginRuntime as any;
-        const cfg = runtime.config?.loadConfig?.() ?? {};
-
-        // Build the context payload for OpenClaw's message pipeline
-        const ctxPayload = {
-          Body: envelope.content.text ?? "",
-          RawBody: envelope.content.text ?? "",
-          CommandBody: envelope.content.text ?? "",
-          From: `webex:${envelope.author.id}`,
-          To: `webex:${envelope.conversationId}`,
-          SessionKey: `agent:main:webex:${envelope.conversationId}`,
-          AccountId: account.accountId,
-          ChatType: envelope.metadata.roomType === "direct" ? "direct" : "group",
-          SenderName: envelope.author.displayName ?? envelope.author.email ?? envelope.author.id,
-          SenderId: envelope.author.id,
-          Provider: "webex",
-          Surface: "webex",
-          MessageSid: envelope.id,
-          Timestamp: envelope.metadata.timestamp,
-          OriginatingChannel: "webex",
-          OriginatingTo: `webex:${envelope.conversationId}`,
-          MessageThreadId: envelope.metadata.parentId,
-        };
-
-        // Use the plugin runtime's dispatch function (cast to any for internal API)
-        const dispatchReply = runtime.channel?.reply?.dispatchReplyWithBufferedBlockDispatcher;
-
-        if (dispatchReply) {
-          // Create a sender for replies
-          const sender = new WebexSender(account.config);
-
-          await dispatchReply({
-            ctx: ctxPayload,
-            cfg,
-            dispatcherOptions: {
-              deliver: async (payload: { text?: string; media?: string }) => {
-                if (payload.text) {
-                  await sender.send({
-                    to: envelope.conversationId,
-                    content: { markdown: payload.text },
-                    parentId: envelope.metadata.parentId,
-                  });
-                }
-              },
-              onError: (err: Error) => {
-                console.error(`[webex:${account.accountId}] reply dispatch error: ${err.message}`);
-              },
-            },
-            replyOptions: {},
-          });
-        } else {
-          console.warn(`[webex:${account.accountId}] dispatchReply not available in plugin runtime`);
-        }
+      const result = await acceptWebhookPayload(body.value as WebexWebhookPayload, target);
+      if (result === "busy") {
+        res.statusCode = 503;
+        res.setHeader("Retry-After", "5");
+        res.end("Service Unavailable");
+        return true;
       }
 
       res.statusCode = 200;
       res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ ok: true }));
+      res.end(JSON.stringify(
+        result === "duplicate" ? { ok: true, duplicate: true }
+          : result === "coalesced" ? { ok: true, coalesced: true }
+          : { ok: true }
+      ));
       return true;
     } catch (err) {
       console.error(
@@ -297,12 +751,34 @@ function listWebexAccountIds(cfg: CoreConfig): string[] {
   return ids;
 }
 
+/**
+ * Map a channels.defaults.groupPolicy value onto a Webex group policy.
+ * OpenClaw spells "deny" as "disabled" at the defaults level.
+ */
+function normalizeGroupPolicy(raw?: string): GroupPolicy | undefined {
+  switch (raw?.trim().toLowerCase()) {
+    case "open":
+      return "open";
+    case "allowlist":
+    case "allowlisted":
+      return "allowlist";
+    case "deny":
+    case "disabled":
+      return "deny";
+    case "mention-only":
+      return "mention-only";
+    default:
+      return undefined;
+  }
+}
+
 function resolveWebexAccount(opts: {
   cfg: CoreConfig;
   accountId?: string;
 }): ResolvedWebexAccount {
   const { cfg, accountId = DEFAULT_ACCOUNT_ID } = opts;
   const section = cfg.channels?.webex;
+  const defaultGroupPolicy = normalizeGroupPolicy(cfg.channels?.defaults?.groupPolicy);
 
   if (!section) {
     return {
@@ -318,46 +794,89 @@ function resolveWebexAccount(opts: {
 
   if (namedAccount) {
     const token = namedAccount.token ?? section.token;
-    const webhookUrl = namedAccount.webhookUrl ?? section.webhookUrl;
+    const publicBaseUrl = namedAccount.publicBaseUrl ?? section.publicBaseUrl;
+    // A base URL beats the section's webhookUrl, which points at the default account's route
+    const webhookUrl = namedAccount.webhookUrl
+      ?? (publicBaseUrl ? deriveWebhookUrl(publicBaseUrl, accountId) : section.webhookUrl);
+    const transport = namedAccount.transport ?? section.transport;
 
     return {
       accountId,
       name: namedAccount.name,
       enabled: namedAccount.enabled !== false,
-      configured: Boolean(token && webhookUrl),
+      configured: Boolean(token && (webhookUrl || (transport && transport !== "webhook"))),
       token,
       webhookUrl,
       config: {
         token: token ?? "",
         webhookUrl: webhookUrl ?? "",
+        publicBaseUrl,
+        transport,
+        deviceRegistrationUrl: namedAccount.deviceRegistrationUrl ?? section.deviceRegistrationUrl,
+        polling: namedAccount.polling ?? section.polling,
         webhookSecret: namedAccount.webhookSecret ?? section.webhookSecret,
+        webhookNamePrefix: namedAccount.webhookNamePrefix ?? section.webhookNamePrefix,
         dmPolicy: namedAccount.dmPolicy ?? section.dmPolicy ?? "allow",
         allowFrom: namedAccount.allowFrom ?? section.allowFrom,
+        groupPolicy: namedAccount.groupPolicy ?? section.groupPolicy ?? defaultGroupPolicy ?? "open",
+        allowRooms: namedAccount.allowRooms ?? section.allowRooms,
+        requireMention: namedAccount.requireMention ?? section.requireMention,
         apiBaseUrl: namedAccount.apiBaseUrl ?? section.apiBaseUrl,
         maxRetries: namedAccount.maxRetries ?? section.maxRetries,
         retryDelayMs: namedAccount.retryDelayMs ?? section.retryDelayMs,
+        welcomeMessage: namedAccount.welcomeMessage ?? section.welcomeMessage,
+        mediaMaxBytes: namedAccount.mediaMaxBytes ?? section.mediaMaxBytes,
+        mediaAllowedTypes: namedAccount.mediaAllowedTypes ?? section.mediaAllowedTypes,
+        markdown: namedAccount.markdown ?? section.markdown,
+        streaming: namedAccount.streaming ?? section.streaming,
+        dedupe: namedAccount.dedupe ?? section.dedupe,
+        queue: namedAccount.queue ?? section.queue,
+        debounce: namedAccount.debounce ?? section.debounce,
+        webhookReconcileIntervalMs: namedAccount.webhookReconcileIntervalMs ?? section.webhookReconcileIntervalMs,
+        deregisterOnStop: namedAccount.deregisterOnStop ?? section.deregisterOnStop,
       },
     };
   }
 
   // Fall back to top-level config (default account)
   if (accountId === DEFAULT_ACCOUNT_ID) {
+    const webhookUrl = section.webhookUrl
+      ?? (section.publicBaseUrl ? deriveWebhookUrl(section.publicBaseUrl, accountId) : undefined);
+
     return {
       accountId,
       name: section.name,
       enabled: section.enabled !== false,
-      configured: Boolean(section.token && section.webhookUrl),
+      configured: Boolean(section.token && (webhookUrl || (section.transport && section.transport !== "webhook"))),
       token: section.token,
-      webhookUrl: section.webhookUrl,
+      webhookUrl,
       config: {
         token: section.token ?? "",
-        webhookUrl: section.webhookUrl ?? "",
+        webhookUrl: webhookUrl ?? "",
+        publicBaseUrl: section.publicBaseUrl,
+        transport: section.transport,
+        deviceRegistrationUrl: section.deviceRegistrationUrl,
+        polling: section.polling,
         webhookSecret: section.webhookSecret,
+        webhookNamePrefix: section.webhookNamePrefix,
         dmPolicy: section.dmPolicy ?? "allow",
         allowFrom: section.allowFrom,
+        groupPolicy: section.groupPolicy ?? defaultGroupPolicy ?? "open",
+        allowRooms: section.allowRooms,
+        requireMention: section.requireMention,
         apiBaseUrl: section.apiBaseUrl,
         maxRetries: section.maxRetries,
         retryDelayMs: section.retryDelayMs,
+        welcomeMessage: section.welcomeMessage,
+        mediaMaxBytes: section.mediaMaxBytes,
+        mediaAllowedTypes: section.mediaAllowedTypes,
+        markdown: section.markdown,
+        streaming: section.streaming,
+        dedupe: section.dedupe,
+        queue: section.queue,
+        debounce: section.debounce,
+        webhookReconcileIntervalMs: section.webhookReconcileIntervalMs,
+        deregisterOnStop: section.deregisterOnStop,
       },
     };
   }
@@ -371,6 +890,22 @@ function resolveWebexAccount(opts: {
   };
 }
 
+/**
+ * Check whether an account is still in the config the gateway reloaded.
+ * An account stopped while missing from it was deleted. Assumed present
+ * when the config cannot be loaded.
+ */
+function isAccountInConfig(accountId: string): boolean {
+  // Load config using the plugin runtime (cast to any for internal API access)
+  const runtime = pluginRuntime as any;
+  try {
+    const cfg = runtime?.config?.loadConfig?.();
+    return !cfg || listWebexAccountIds(cfg as CoreConfig).includes(accountId);
+  } catch {
+    return true;
+  }
+}
+
 const meta = {
   id: "webex",
   label: "Webex",
@@ -441,13 +976,14 @@ export const webexPlugin: ChannelPlugin<ResolvedWebexAccount> = {
       const config = cfg as CoreConfig;
       const section = config.channels?.webex ?? {};
 
+      // The running account removes its webhooks once the gateway stops it
       if (accountId === DEFAULT_ACCOUNT_ID) {
-        const { token, webhookUrl, webhookSecret, dmPolicy, allowFrom, ...rest } = section;
+        const kept = Object.entries(section).filter(([key]) => SHARED_SECTION_KEYS.has(key));
         return {
           ...config,
           channels: {
             ...config.channels,
-            webex: rest,
+            webex: Object.fromEntries(kept) as WebexChannelSection,
           },
         };
       }
@@ -481,26 +1017,46 @@ export const webexPlugin: ChannelPlugin<ResolvedWebexAccount> = {
       ((cfg as CoreConfig).channels?.webex?.allowFrom ?? []).map(String),
 
     formatAllowFrom: ({ allowFrom }) =>
-      allowFrom.map((entry) => entry.trim().toLowerCase()),
+      allowFrom.map(normalizeAllowEntry),
   },
 
   security: {
     resolveDmPolicy: ({ account }) => {
-      const policy = account.config.dmPolicy ?? "allow";
-      // Map "allowlisted" to "allowlist" for OpenClaw compatibility
-      const normalizedPolicy = policy === "allowlisted" ? "allowlist" : policy;
+      const policy = normalizeDmPolicy(account.config.dmPolicy);
 
       return {
-        policy: normalizedPolicy as "allow" | "deny" | "allowlist" | "pairing",
+        policy,
         allowFrom: account.config.allowFrom ?? [],
         policyPath: "channels.webex.dmPolicy",
         allowFromPath: "channels.webex.allowFrom",
-        approveHint: "Add user ID or email to channels.webex.allowFrom",
-        normalizeEntry: (raw) => raw.trim().toLowerCase(),
+        approveHint: policy === "pairing"
+          ? "Approve with: openclaw pairing approve webex <code>"
+          : "Add user ID or email to channels.webex.allowFrom",
+        normalizeEntry: normalizeAllowEntry,
       };
     },
   },
 
+  pairing: {
+    idLabel: "webexPersonId",
+
+    normalizeAllowEntry,
+
+    // The host approves codes itself (`openclaw pairing approve webex <code>`)
+    // and only passes the person ID, so greet them from the first bot that can
+    notifyApproval: async ({ cfg, id }) => {
+      const account = listWebexAccountIds(cfg as CoreConfig)
+        .map((accountId) => resolveWebexAccount({ cfg: cfg as CoreConfig, accountId }))
+        .find((candidate) => candidate.enabled && candidate.configured);
+      if (!account) {
+        throw new Error("No configured Webex account to notify the approved sender from");
+      }
+
+      const sender = new WebexSender(account.config);
+      await sender.sendDirectById(id, "Your access has been approved. You can now message me.");
+    },
+  },
+
   threading: {
     resolveReplyToMode: () => "off",
     buildToolContext: ({ context, hasRepliedRef }) => ({
@@ -534,9 +1090,40 @@ export const webexPlugin: ChannelPlugin<ResolvedWebexAccount> = {
     },
   },
 
+  actions: {
+    listActions: ({ cfg }) => (listWebexAccountIds(cfg as CoreConfig).length > 0 ? ["edit"] : []),
+
+    supportsAction: ({ action }) => action === "edit",
+
+    handleAction: async ({ action, params, cfg, accountId }) => {
+      if (action !== "edit") {
+        throw new Error(`Action ${action} is not supported for provider webex.`);
+      }
+      const messageId = readStringParam(params, "messageId");
+      const text = readStringParam(params, "message");
+      const roomId = readStringParam(params, "channelId") ?? readStringParam(params, "to");
+      if (!messageId || !text || !roomId) {
+        throw new Error("Editing a Webex message needs messageId, message and to");
+      }
+
+      const account = resolveWebexAccount({
+        cfg: cfg as CoreConfig,
+        accountId: accountId ?? DEFAULT_ACCOUNT_ID,
+      });
+      const sender = new WebexSender(account.config);
+
+      const result = await sender.editMessage(messageId, roomId, toWebexMarkdown(text, account.config.markdown));
+
+      return actionResult({ ok: true, channel: "webex", messageId: result.id, roomId: result.roomId });
+    },
+  },
+
   outbound: {
     deliveryMode: "direct",
-    textChunkLimit: 7000, // Webex has a 7439 byte limit
+    // Webex limits messages to 7439 bytes, not characters
+    textChunkLimit: WEBEX_MAX_MESSAGE_BYTES,
+    chunkerMode: "markdown",
+    chunker: (text, limit) => chunkMarkdown(text, limit),
 
     sendText: async ({ cfg, to, text, accountId, replyToId }) => {
       const account = resolveWebexAccount({
@@ -547,7 +1134,7 @@ export const webexPlugin: ChannelPlugin<ResolvedWebexAccount> = {
 
       const result = await sender.send({
         to,
-        content: { markdown: text },
+        content: { markdown: toWebexMarkdown(text, account.config.markdown) },
         parentId: replyToId,
       });
 
@@ -568,8 +1155,8 @@ export const webexPlugin: ChannelPlugin<ResolvedWebexAccount> = {
       const result = await sender.send({
         to,
         content: {
-          markdown: text,
-          files: mediaUrl ? [mediaUrl] : undefined,
+          markdown: text ? toWebexMarkdown(text, account.config.markdown) : text,
+          ...(mediaUrl ? mediaContent(mediaUrl) : {}),
         },
         parentId: replyToId,
       });
@@ -593,16 +1180,45 @@ export const webexPlugin: ChannelPlugin<ResolvedWebexAccount> = {
 
     collectStatusIssues: (accounts) =>
       accounts.flatMap((account) => {
+        const issues = [];
         const lastError = typeof account.lastError === "string" ? account.lastError.trim() : "";
-        if (!lastError) return [];
-        return [
-          {
+        if (lastError) {
+          issues.push({
             channel: "webex",
             accountId: account.accountId,
             kind: "runtime" as const,
             message: `Channel error: ${lastError}`,
-          },
-        ];
+          });
+        }
+        // Drift repaired (or not) by the latest webhook reconcile run
+        const webhookIssues = Array.isArray(account.webhookIssues) ? (account.webhookIssues as string[]) : [];
+        for (const message of webhookIssues) {
+          issues.push({
+            channel: "webex",
+            accountId: account.accountId,
+            kind: "runtime" as const,
+            message,
+          });
+        }
+        const webhookUrlIssue = typeof account.webhookUrlIssue === "string" ? account.webhookUrlIssue : "";
+        if (webhookUrlIssue) {
+          issues.push({
+            channel: "webex",
+            accountId: account.accountId,
+            kind: "config" as const,
+            message: webhookUrlIssue,
+          });
+        }
+        const selfTest = account.webhookSelfTest as WebhookSelfTestResult | null | undefined;
+        if (selfTest && !selfTest.ok) {
+          issues.push({
+            channel: "webex",
+            accountId: account.accountId,
+            kind: "runtime" as const,
+            message: `Webhook self-test through ${selfTest.url} failed: ${selfTest.error}`,
+          });
+        }
+        return issues;
       }),
 
     buildChannelSummary: ({ snapshot }) => ({
@@ -669,6 +1285,14 @@ export const webexPlugin: ChannelPlugin<ResolvedWebexAccount> = {
       lastError: runtime?.lastError ?? null,
       probe,
       lastProbeAt: runtime?.lastProbeAt ?? null,
+      transport: account.config.transport ?? "webhook",
+      queue: (webhookTargets.get(webhookRoutePath(account.accountId)) ?? transportTargets.get(account.accountId))
+        ?.queue?.stats() ?? null,
+      webhookIssues: webhookReconcilers.get(account.accountId)?.getIssues() ?? [],
+      webhookUrlIssue: (account.config.transport ?? "webhook") === "webhook" && account.webhookUrl
+        ? checkWebhookUrl(account.webhookUrl, account.accountId)
+        : null,
+      webhookSelfTest: webhookSelfTests.get(account.accountId) ?? null,
     }),
   },
 
@@ -681,14 +1305,107 @@ export const webexPlugin: ChannelPlugin<ResolvedWebexAccount> = {
         baseUrl: account.config.apiBaseUrl ?? "https://webexapis.com/v1",
       });
 
+      const transport = account.config.transport ?? "webhook";
       log?.info?.(
-        `[${account.accountId}] starting Webex provider (webhook mode)`
+        `[${account.accountId}] starting Webex provider (${transport} mode)`
       );
 
       // Initialize webhook handler
-      const webhookHandler = new WebexWebhookHandler(account.config);
+      const webhookHandler = new WebexWebhookHandler(account.config, {
+        accountId: account.accountId,
+        pairingStore: getPairingStore(),
+      });
       await webhookHandler.initialize();
 
+      const target: WebexWebhookTarget = {
+        account,
+        config: account.config,
+        webhookHandler,
+        dedupe: new DedupeStore({
+          ttlMs: account.config.dedupe?.ttlMs,
+          filePath: account.config.dedupe?.persist ? defaultDedupeStorePath(account.accountId) : undefined,
+        }),
+        debouncer: account.config.debounce?.windowMs
+          ? new Debouncer<WebexWebhookPayload>(account.config.debounce.windowMs)
+          : undefined,
+        queue: new KeyedWorkQueue({
+          concurrency: account.config.queue?.concurrency,
+          maxPending: account.config.queue?.maxPending,
+          onError: (err) => {
+            log?.error?.(
+              `[${account.accountId}] webhook error: ${err instanceof Error ? err.message : err}`
+            );
+          },
+        }),
+      };
+
+      // Polling transport: no inbound connectivity at all
+      if (transport === "polling") {
+        const poller = new WebexPoller(account.config, {
+          cursorPath: defaultPollCursorPath(account.accountId),
+          minIntervalMs: account.config.polling?.minIntervalMs,
+          maxIntervalMs: account.config.polling?.maxIntervalMs,
+          maxRooms: account.config.polling?.maxRooms,
+          onMessage: async (message) => {
+            const payload = messageToWebhookPayload(message);
+            prefetchedMessages.set(payload, message);
+            // Resolves once queued or added to a debounce window, so a room's
+            // messages coalesce instead of each waiting out the window.
+            // "busy" leaves the room's cursor in place for the next poll
+            if ((await acceptWebhookPayload(payload, target)) === "busy") {
+              throw new Error("work queue full");
+            }
+          },
+          log: {
+            warn: (msg) => log?.warn?.(`[${account.accountId}] ${msg}`),
+          },
+        });
+        poller.start();
+        transportTargets.set(account.accountId, target);
+
+        return async () => {
+          log?.info?.(`[${account.accountId}] stopping Webex provider`);
+          poller.stop();
+          if (transportTargets.get(account.accountId) === target) {
+            transportTargets.delete(account.accountId);
+          }
+        };
+      }
+
+      // Websocket transport: no public URL, events arrive over Mercury
+      if (transport === "websocket") {
+        const mercury = new MercuryClient(account.config, {
+          deviceRegistrationUrl: account.config.deviceRegistrationUrl,
+          onPayload: async (payload) => {
+            const result = await acceptWebhookPayload(payload, target);
+            if (result === "busy") {
+              log?.warn?.(`[${account.accountId}] work queue full, dropped ${payload.resource}/${payload.event}`);
+            }
+          },
+          log: {
+            info: (msg) => log?.info?.(`[${account.accountId}] ${msg}`),
+            warn: (msg) => log?.warn?.(`[${account.accountId}] ${msg}`),
+            error: (msg) => log?.error?.(`[${account.accountId}] ${msg}`),
+          },
+        });
+        await mercury.start();
+        transportTargets.set(account.accountId, target);
+
+        return async () => {
+          log?.info?.(`[${account.accountId}] stopping Webex provider`);
+          if (transportTargets.get(account.accountId) === target) {
+            transportTargets.delete(account.accountId);
+          }
+          await mercury.stop();
+        };
+      }
+
+      const webhookPath = webhookRoutePath(account.accountId);
+      const webhookUrlIssue = account.webhookUrl ? checkWebhookUrl(account.webhookUrl, account.accountId) : null;
+      if (webhookUrlIssue) {
+        log?.warn?.(`[${account.accountId}] ${webhookUrlIssue}`);
+      }
+
       // Register webhooks with Webex
       try {
         await webhookHandler.registerWebhooks();
@@ -700,22 +1417,74 @@ export const webexPlugin: ChannelPlugin<ResolvedWebexAccount> = {
       }
 
       // Register webhook target for HTTP handler
-      const webhookPath = `/webhooks/webex/${account.accountId}`;
-
-      const unregister = registerWebexWebhookTarget(webhookPath, {
-        account,
-        config: account.config,
-        webhookHandler,
-      });
+      target.selfTestNonce = randomBytes(16).toString("hex");
+      const unregister = registerWebexWebhookTarget(webhookPath, target);
 
       log?.info?.(
         `[${account.accountId}] HTTP webhook handler registered at ${webhookPath}`
       );
 
+      // Ping the route through the public URL, after a delay since the
+      // gateway may only start listening once every account has started
+      webhookSelfTests.delete(account.accountId);
+      const webhookUrl = account.webhookUrl;
+      const nonce = target.selfTestNonce;
+      const selfTestTimer = webhookUrl
+        ? setTimeout(async () => {
+          const result = await pingWebhookUrl(webhookUrl, nonce);
+          if (webhookTargets.get(webhookPath) !== target) {
+            return;
+          }
+          webhookSelfTests.set(account.accountId, result);
+          if (result.ok) {
+            log?.info?.(`[${account.accountId}] webhook self-test passed (${result.elapsedMs}ms)`);
+          } else {
+            log?.warn?.(`[${account.accountId}] webhook self-test through ${result.url} failed: ${result.error}`);
+          }
+        }, WEBHOOK_SELF_TEST_DELAY_MS)
+        : undefined;
+      selfTestTimer?.unref?.();
+
+      // Repair webhooks Webex disables after failed deliveries, or that
+      // were deleted behind our back
+      const reconciler = new WebhookReconciler(webhookHandler, {
+        intervalMs: account.config.webhookReconcileIntervalMs,
+        onDrift: (issues) => {
+          for (const issue of issues) {
+            log?.warn?.(`[${account.accountId}] ${issue}`);
+          }
+        },
+      });
+      reconciler.start();
+      webhookReconcilers.set(account.accountId, reconciler);
+
       // Return cleanup function
       return async () => {
         log?.info?.(`[${account.accountId}] stopping Webex provider`);
+        clearTimeout(selfTestTimer);
+        reconciler.stop();
+        if (webhookReconcilers.get(account.accountId) === reconciler) {
+          webhookReconcilers.delete(account.accountId);
+          webhookSelfTests.delete(account.accountId);
+        }
         unregister();
+
+        // Deleted accounts always take their webhooks with them, or Webex
+        // keeps delivering to them
+        const deleted = !isAccountInConfig(account.accountId);
+        if (deleted || account.config.deregisterOnStop) {
+          try {
+            const removed = await webhookHandler.deregisterWebhooks();
+            log?.info?.(
+              `[${account.accountId}] removed ${removed.length} webhooks${deleted ? " of deleted account" : ""}`
+            );
+          } catch (err) {
+            log?.warn?.(
+              `[${account.accountId}] failed to remove webhooks: ${err instanceof Error ? err.message : err}; ` +
+                `run "openclaw webex webhooks prune" to remove what is left`
+            );
+          }
+        }
       };
     },
   },
@@ -151,6 +151,22 @@ describe('WebexChannel', () => {
         await expect(channel.initialize(invalidConfig)).rejects.toThrow('requires a webhookUrl');
       });
 
+      it('should not require webhookUrl with the websocket transport', async () => {
+        const websocketConfig = { ...config, webhookUrl: '', transport: 'websocket' as const };
+
+        await channel.initialize(websocketConfig);
+
+        expect(channel.isInitialized()).toBe(true);
+      });
+
+      it('should reject an unknown transport', async () => {
+        const invalidConfig = { ...config, transport: 'carrier-pigeon' as 'polling' };
+
+        await expect(channel.initialize(invalidConfig)).rejects.toThrow(
+          'transport must be "webhook", "websocket" or "polling"'
+        );
+      });
+
       it('should throw error when dmPolicy is missing', async () => {
         const invalidConfig = { ...config, dmPolicy: undefined as unknown as 'allow' };
 
@@ -173,6 +189,22 @@ describe('WebexChannel', () => {
         );
       });
 
+      it('should throw error when groupPolicy is allowlist but allowRooms is empty', async () => {
+        const invalidConfig = { ...config, groupPolicy: 'allowlist' as const, allowRooms: [] };
+
+        await expect(channel.initialize(invalidConfig)).rejects.toThrow(
+          'requires allowRooms when groupPolicy is "allowlist"'
+        );
+      });
+
+      it('should require allowFrom for the allowlist spelling too', async () => {
+        const invalidConfig = { ...config, dmPolicy: 'allowlist' as const };
+
+        await expect(channel.initialize(invalidConfig)).rejects.toThrow(
+          'requires allowFrom when dmPolicy is "allowlist"'
+        );
+      });
+
       it('should accept valid allowlisted config', async () => {
         const validConfig = {
           ...config,
@@ -385,6 +417,102 @@ describe('WebexChannel', () => {
     });
   });
 
+  describe('welcome message', () => {
+    const membershipEnvelope: OpenClawEnvelope = {
+      id: 'membership-123',
+      kind: 'membership',
+      channel: 'webex',
+      conversationId: 'room-123',
+      author: { id: 'actor-123', isBot: false },
+      content: {
+        text: 'Bot was added to the space',
+        membership: { event: 'added', actorId: 'actor-123' },
+      },
+      metadata: {
+        roomType: 'group',
+        roomId: 'room-123',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        raw: {
+          id: 'membership-123',
+          roomId: 'room-123',
+          personId: 'bot-123',
+          personEmail: 'bot@example.com',
+          created: '2024-01-01T00:00:00.000Z',
+        },
+      },
+    };
+
+    const membershipPayload: WebexWebhookPayload = {
+      id: 'webhook-id',
+      name: 'Test',
+      targetUrl: 'https://example.com/webhook',
+      resource: 'memberships',
+      event: 'created',
+      orgId: 'org-123',
+      createdBy: 'user-123',
+      appId: 'app-123',
+      ownedBy: 'creator',
+      status: 'active',
+      created: '2024-01-01T00:00:00.000Z',
+      actorId: 'actor-123',
+      data: {
+        id: 'membership-123',
+        roomId: 'room-123',
+        roomType: 'group',
+        personId: 'bot-123',
+        created: '2024-01-01T00:00:00.000Z',
+      },
+    };
+
+    it('should send the welcome message when added to a group space', async () => {
+      await channel.initialize({ ...config, welcomeMessage: 'Hello, space!' });
+      const webhookHandler = channel.getWebhookHandler();
+      (webhookHandler.handleWebhook as ReturnType<typeof vi.fn>).mockResolvedValueOnce(membershipEnvelope);
+
+      await channel.handleWebhook(membershipPayload);
+
+      expect(channel.getSender().send).toHaveBeenCalledWith({
+        to: 'room-123',
+        content: { markdown: 'Hello, space!' },
+      });
+    });
+
+    it('should not send a welcome message when none is configured', async () => {
+      await channel.initialize(config);
+      const webhookHandler = channel.getWebhookHandler();
+      (webhookHandler.handleWebhook as ReturnType<typeof vi.fn>).mockResolvedValueOnce(membershipEnvelope);
+
+      await channel.handleWebhook(membershipPayload);
+
+      expect(channel.getSender().send).not.toHaveBeenCalled();
+    });
+
+    it('should not send a welcome message to direct rooms', async () => {
+      await channel.initialize({ ...config, welcomeMessage: 'Hello, space!' });
+      const webhookHandler = channel.getWebhookHandler();
+      (webhookHandler.handleWebhook as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ...membershipEnvelope,
+        metadata: { ...membershipEnvelope.metadata, roomType: 'direct' },
+      });
+
+      await channel.handleWebhook(membershipPayload);
+
+      expect(channel.getSender().send).not.toHaveBeenCalled();
+    });
+
+    it('should still notify handlers of membership events', async () => {
+      await channel.initialize(config);
+      const webhookHandler = channel.getWebhookHandler();
+      (webhookHandler.handleWebhook as ReturnType<typeof vi.fn>).mockResolvedValueOnce(membershipEnvelope);
+      const handler = vi.fn();
+      channel.onMessage(handler);
+
+      await channel.handleWebhook(membershipPayload);
+
+      expect(handler).toHaveBeenCalledWith(membershipEnvelope);
+    });
+  });
+
   describe('onMessage / offMessage', () => {
     it('should register message handler', async () => {
       await channel.initialize(config);
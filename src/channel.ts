@@ -10,16 +10,19 @@ import type {
   WebexWebhookPayload,
   OpenClawEnvelope,
   OpenClawOutboundMessage,
+  WebexSendResult,
   WebhookHandler,
 } from './types';
 import { WebexSender } from './send';
 import { WebexWebhookHandler } from './webhook';
+import { normalizeDmPolicy } from './policy';
 
 /**
  * Default configuration values
  */
 const DEFAULT_CONFIG: Partial<WebexChannelConfig> = {
   dmPolicy: 'allow',
+  groupPolicy: 'open',
   apiBaseUrl: 'https://webexapis.com/v1',
   maxRetries: 3,
   retryDelayMs: 1000,
@@ -68,21 +71,31 @@ export class WebexChannel implements WebexChannelPlugin {
     if (!config.token) {
       throw new Error('Webex channel config requires a token');
     }
-    if (!config.webhookUrl) {
+    const transport = config.transport ?? 'webhook';
+    if (!config.webhookUrl && transport === 'webhook') {
       throw new Error('Webex channel config requires a webhookUrl');
     }
     if (!config.dmPolicy) {
       throw new Error('Webex channel config requires a dmPolicy');
     }
-    if (config.dmPolicy === 'allowlisted' && (!config.allowFrom || config.allowFrom.length === 0)) {
-      throw new Error('Webex channel config requires allowFrom when dmPolicy is "allowlisted"');
+    if (normalizeDmPolicy(config.dmPolicy) === 'allowlist' && (!config.allowFrom || config.allowFrom.length === 0)) {
+      throw new Error(`Webex channel config requires allowFrom when dmPolicy is "${config.dmPolicy}"`);
+    }
+    if (config.groupPolicy === 'allowlist' && (!config.allowRooms || config.allowRooms.length === 0)) {
+      throw new Error('Webex channel config requires allowRooms when groupPolicy is "allowlist"');
+    }
+
+    if (!['webhook', 'websocket', 'polling'].includes(transport)) {
+      throw new Error('Webex channel config transport must be "webhook", "websocket" or "polling"');
     }
 
     // Validate webhook URL format
-    try {
-      new URL(config.webhookUrl);
-    } catch {
-      throw new Error('Webex channel config webhookUrl must be a valid URL');
+    if (config.webhookUrl) {
+      try {
+        new URL(config.webhookUrl);
+      } catch {
+        throw new Error('Webex channel config webhookUrl must be a valid URL');
+      }
     }
   }
 
@@ -98,7 +111,7 @@ export class WebexChannel implements WebexChannelPlugin {
   /**
    * Send a message
    */
-  async send(message: OpenClawOutboundMessage): Promise<WebexMessage> {
+  async send(message: OpenClawOutboundMessage): Promise<WebexSendResult> {
     this.ensureInitialized();
     return this.sender!.send(message);
   }
@@ -149,12 +162,17 @@ export class WebexChannel implements WebexChannelPlugin {
    */
   async handleWebhook(
     payload: WebexWebhookPayload,
+    signature?: string,
   ): Promise<OpenClawEnvelope | null> {
     this.ensureInitialized();
 
-    const envelope = await this.webhookHandler!.handleWebhook(payload);
+    const envelope = await this.webhookHandler!.handleWebhook(payload, signature);
 
     if (envelope) {
+      if (envelope.kind === 'membership') {
+        await this.sendWelcomeMessage(envelope);
+      }
+
       // Notify all registered handlers
       await this.notifyHandlers(envelope);
     }
@@ -162,6 +180,29 @@ export class WebexChannel implements WebexChannelPlugin {
     return envelope;
   }
 
+  /**
+   * Greet a group space the bot has just been added to, if configured
+   */
+  private async sendWelcomeMessage(envelope: OpenClawEnvelope): Promise<void> {
+    const welcomeMessage = this.config!.welcomeMessage;
+    if (
+      !welcomeMessage ||
+      envelope.content.membership?.event !== 'added' ||
+      envelope.metadata.roomType !== 'group'
+    ) {
+      return;
+    }
+
+    try {
+      await this.sender!.send({
+        to: envelope.conversationId,
+        content: { markdown: welcomeMessage },
+      });
+    } catch (error) {
+      console.error('Error sending welcome message:', error);
+    }
+  }
+
   /**
    * Register a message handler
    */
@@ -0,0 +1,92 @@
+/**
+ * Tests for the markdown chunker
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chunkMarkdown, WEBEX_MAX_MESSAGE_BYTES } from './chunker';
+
+const bytes = (text: string) => Buffer.byteLength(text, 'utf8');
+
+describe('chunkMarkdown', () => {
+  it('should return short markdown unchanged', () => {
+    expect(chunkMarkdown('**hello**')).toEqual(['**hello**']);
+  });
+
+  it('should return no chunks for empty input', () => {
+    expect(chunkMarkdown('')).toEqual([]);
+  });
+
+  it('should split on line boundaries within the byte limit', () => {
+    const chunks = chunkMarkdown('aaaa\nbbbb\ncccc', 10);
+
+    expect(chunks).toEqual(['aaaa\nbbbb', 'cccc']);
+  });
+
+  it('should count UTF-8 bytes rather than characters', () => {
+    const chunks = chunkMarkdown('€€€\n€€€', 10);
+
+    expect(chunks).toEqual(['€€€', '€€€']);
+  });
+
+  it('should never exceed the Webex limit even when asked for more', () => {
+    const chunks = chunkMarkdown('x'.repeat(WEBEX_MAX_MESSAGE_BYTES + 10), 100000);
+
+    expect(chunks.map(bytes)).toEqual([WEBEX_MAX_MESSAGE_BYTES, 10]);
+  });
+
+  it('should not split multi-byte characters when hard-splitting', () => {
+    const chunks = chunkMarkdown('😀'.repeat(5), 9);
+
+    expect(chunks).toEqual(['😀😀', '😀😀', '😀']);
+  });
+
+  it('should keep a code fence in one chunk when it fits', () => {
+    const fence = '```ts\nconst a = 1;\nconst b = 2;\n```';
+    const chunks = chunkMarkdown(`intro text here\n${fence}\noutro`, 45);
+
+    expect(chunks).toEqual(['intro text here', `${fence}\noutro`]);
+  });
+
+  it('should close and re-open an oversized code fence', () => {
+    const code = Array.from({ length: 6 }, (_, i) => `line ${i}`).join('\n');
+    const chunks = chunkMarkdown(`\`\`\`python\n${code}\n\`\`\``, 30);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(bytes(chunk)).toBeLessThanOrEqual(30);
+      expect(chunk.startsWith('```python\n')).toBe(true);
+      expect(chunk.endsWith('\n```')).toBe(true);
+    }
+    const rejoined = chunks.map((chunk) => chunk.slice('```python\n'.length, -'\n```'.length)).join('\n');
+    expect(rejoined).toBe(code);
+  });
+
+  it('should keep list items with their continuation lines', () => {
+    const markdown = '- first item\n  continued here\n- second item';
+    const chunks = chunkMarkdown(markdown, 30);
+
+    expect(chunks).toEqual(['- first item\n  continued here', '- second item']);
+  });
+
+  it('should not split inside a link', () => {
+    const link = '[the docs](https://example.com/a/very/long/path)';
+    const chunks = chunkMarkdown(`see ${link} for more details please`, 60);
+
+    expect(chunks.some((chunk) => chunk.includes(link))).toBe(true);
+    for (const chunk of chunks) {
+      expect(bytes(chunk)).toBeLessThanOrEqual(60);
+    }
+  });
+
+  it('should split long paragraphs on whitespace', () => {
+    const chunks = chunkMarkdown('one two three four five six', 10);
+
+    expect(chunks).toEqual(['one two', 'three four', 'five six']);
+  });
+
+  it('should drop blank lines at chunk boundaries', () => {
+    const chunks = chunkMarkdown('para one\n\npara two', 10);
+
+    expect(chunks).toEqual(['para one', 'para two']);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Markdown-aware Message Chunker
+ *
+ * Webex rejects messages over 7439 bytes of UTF-8. Long markdown is split on
+ * line boundaries, keeping code fences, list items and links intact. A code
+ * fence too large for one message is closed at the end of a chunk and
+ * re-opened at the start of the next.
+ */
+
+/** Maximum size of a Webex message's text or markdown, in UTF-8 bytes */
+export const WEBEX_MAX_MESSAGE_BYTES = 7439;
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const LINK_OR_WORD_PATTERN = /!?\[[^\]]*\]\([^)]*\)|\S+|\s+/g;
+
+interface Block {
+  text: string;
+  /** Opening fence line, for fenced code blocks */
+  fence?: string;
+}
+
+/**
+ * Split markdown into chunks of at most `maxBytes` UTF-8 bytes
+ */
+export function chunkMarkdown(markdown: string, maxBytes: number = WEBEX_MAX_MESSAGE_BYTES): string[] {
+  const limit = Math.max(1, Math.min(maxBytes, WEBEX_MAX_MESSAGE_BYTES));
+  if (byteLength(markdown) <= limit) {
+    return markdown ? [markdown] : [];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    const trimmed = current.replace(/\n+$/, '');
+    if (trimmed.trim()) {
+      chunks.push(trimmed);
+    }
+    current = '';
+  };
+
+  const append = (piece: string) => {
+    const next = current ? `${current}\n${piece}` : piece;
+    if (byteLength(next) <= limit) {
+      current = next;
+      return;
+    }
+    flush();
+    current = piece;
+  };
+
+  for (const block of parseBlocks(markdown)) {
+    if (byteLength(block.text) <= limit) {
+      append(block.text);
+      continue;
+    }
+
+    const pieces = block.fence ? splitFence(block, limit) : splitInline(block.text, limit);
+    for (const piece of pieces) {
+      append(piece);
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Group lines into blocks that must not be split: whole code fences, list
+ * items with their indented continuation lines, and single lines otherwise
+ */
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = FENCE_PATTERN.exec(line);
+
+    if (fence) {
+      const marker = fence[1];
+      const body = [line];
+      i++;
+      while (i < lines.length) {
+        body.push(lines[i]);
+        const closing = lines[i].trim();
+        i++;
+        if (closing.startsWith(marker[0].repeat(marker.length)) && /^[`~]+$/.test(closing)) {
+          break;
+        }
+      }
+      blocks.push({ text: body.join('\n'), fence: line });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const item = [line];
+      i++;
+      while (i < lines.length && /^\s+\S/.test(lines[i]) && !LIST_ITEM_PATTERN.test(lines[i])) {
+        item.push(lines[i]);
+        i++;
+      }
+      blocks.push({ text: item.join('\n') });
+      continue;
+    }
+
+    blocks.push({ text: line });
+    i++;
+  }
+
+  return blocks;
+}
+
+/**
+ * Split an oversized code fence into several fences, each re-opened with the
+ * original info string and explicitly closed
+ */
+function splitFence(block: Block, limit: number): string[] {
+  const lines = block.text.split('\n');
+  const opener = block.fence!;
+  const marker = FENCE_PATTERN.exec(opener)![1];
+  const closer = marker;
+
+  const hasCloser = lines.length > 1 && lines[lines.length - 1].trim().startsWith(marker);
+  const content = lines.slice(1, hasCloser ? -1 : undefined);
+
+  // Room left for code once the fence lines and their newlines are counted
+  const budget = limit - byteLength(opener) - byteLength(closer) - 2;
+  if (budget < 1) {
+    return splitInline(block.text, limit);
+  }
+
+  const pieces: string[] = [];
+  let code: string[] = [];
+  let codeBytes = 0;
+
+  const emit = () => {
+    if (code.length > 0) {
+      pieces.push([opener, ...code, closer].join('\n'));
+    }
+    code = [];
+    codeBytes = 0;
+  };
+
+  for (const line of content) {
+    for (const part of byteLength(line) > budget ? splitBytes(line, budget) : [line]) {
+      const added = byteLength(part) + (code.length > 0 ? 1 : 0);
+      if (codeBytes + added > budget) {
+        emit();
+      }
+      codeBytes += byteLength(part) + (code.length > 0 ? 1 : 0);
+      code.push(part);
+    }
+  }
+  emit();
+
+  return pieces;
+}
+
+/**
+ * Split an oversized line or list item on whitespace, never inside a link
+ */
+function splitInline(text: string, limit: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const token of text.match(LINK_OR_WORD_PATTERN) ?? []) {
+    if (byteLength(current + token) <= limit) {
+      current += token;
+      continue;
+    }
+    if (current.trim()) {
+      pieces.push(current.trimEnd());
+    }
+    if (/^\s+$/.test(token)) {
+      current = '';
+    } else if (byteLength(token) > limit) {
+      const parts = splitBytes(token, limit);
+      pieces.push(...parts.slice(0, -1));
+      current = parts[parts.length - 1];
+    } else {
+      current = token;
+    }
+  }
+  if (current.trim()) {
+    pieces.push(current.trimEnd());
+  }
+
+  return pieces;
+}
+
+/**
+ * Hard-split a string into pieces of at most `limit` bytes without breaking
+ * a multi-byte character
+ */
+function splitBytes(text: string, limit: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of text) {
+    const bytes = byteLength(char);
+    if (currentBytes + bytes > limit && current) {
+      pieces.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+function byteLength(text: string): number {
+  return Buffer.byteLength(text, 'utf8');
+}
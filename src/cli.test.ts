@@ -0,0 +1,147 @@
+/**
+ * Tests for the webhook CLI
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { auditWebhooks, pruneOrphanedWebhooks, registerWebexCli } from './cli';
+import type { CliCommand } from 'openclaw/plugin-sdk';
+import type { WebexWebhook } from './types';
+
+// Mock node-fetch
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+import fetch from 'node-fetch';
+const mockFetch = fetch as unknown as ReturnType<typeof vi.fn>;
+
+// Helper to create mock Response
+function createMockResponse(data: unknown, ok = true, status = 200, statusText = 'OK') {
+  return {
+    ok,
+    status,
+    statusText,
+    json: vi.fn().mockResolvedValue(data),
+  };
+}
+
+const webhook = (id: string, name: string, targetUrl = 'https://example.com/webhooks/webex/default'): WebexWebhook => ({
+  id,
+  name,
+  targetUrl,
+  resource: 'messages',
+  event: 'created',
+  status: 'active',
+  created: '2024-01-01T00:00:00.000Z',
+  orgId: 'org-123',
+  createdBy: 'user-123',
+  appId: 'app-123',
+  ownedBy: 'creator',
+});
+
+const cfg = {
+  channels: {
+    webex: {
+      token: 'bot-token',
+      webhookUrl: 'https://example.com/webhooks/webex/default',
+      accounts: {
+        paused: { enabled: false, webhookUrl: 'https://example.com/webhooks/webex/paused' },
+        other: { token: 'other-token', transport: 'websocket' },
+      },
+    },
+  },
+};
+
+/** Serve each token's webhook list, and accept deletions */
+function serve(webhooks: Record<string, WebexWebhook[]>) {
+  mockFetch.mockImplementation(async (url: string, init: { method: string; headers: Record<string, string> }) => {
+    if (init.method === 'DELETE') {
+      return createMockResponse({}, true, 204);
+    }
+    const token = init.headers['Authorization'].replace('Bearer ', '');
+    return createMockResponse({ items: webhooks[token] ?? [] });
+  });
+}
+
+describe('webhook CLI', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    serve({
+      'bot-token': [
+        webhook('live', 'OpenClaw (default) messages/created'),
+        webhook('paused', 'OpenClaw (paused) messages/created', 'https://example.com/webhooks/webex/paused'),
+        webhook('deleted', 'OpenClaw (removed) messages/created', 'https://example.com/webhooks/webex/removed'),
+        webhook('foreign', 'Some other integration'),
+      ],
+      'other-token': [webhook('stale', 'OpenClaw (other) messages/created', 'https://old.example.com/webhooks/webex/other')],
+    });
+  });
+
+  it('should list each bot once and attribute webhooks to accounts', async () => {
+    const audited = await auditWebhooks(cfg);
+
+    expect(audited.map(({ webhook, accountId, orphaned }) => [webhook.id, accountId, orphaned])).toEqual([
+      ['live', 'default', false],
+      ['paused', 'paused', true],
+      ['deleted', undefined, true],
+      ['foreign', undefined, false],
+      ['stale', 'other', true],
+    ]);
+    // default and paused share a bot token
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should prune only orphaned webhooks, each with its own bot', async () => {
+    const result = await pruneOrphanedWebhooks(cfg);
+
+    expect(result.pruned.map((w) => w.id)).toEqual(['paused', 'deleted', 'stale']);
+    expect(result.failed).toEqual([]);
+    const deletes = mockFetch.mock.calls.filter(([, init]) => init.method === 'DELETE');
+    expect(deletes.map(([url, init]) => [url, init.headers['Authorization']])).toEqual([
+      ['https://webexapis.com/v1/webhooks/paused', 'Bearer bot-token'],
+      ['https://webexapis.com/v1/webhooks/deleted', 'Bearer bot-token'],
+      ['https://webexapis.com/v1/webhooks/stale', 'Bearer other-token'],
+    ]);
+  });
+
+  it('should keep pruning after a failed deletion', async () => {
+    const listed = mockFetch.getMockImplementation()!;
+    mockFetch.mockImplementation(async (url: string, init: { method: string; headers: Record<string, string> }) =>
+      url.endsWith('/paused') ? createMockResponse({}, false, 403, 'Forbidden') : listed(url, init)
+    );
+
+    const result = await pruneOrphanedWebhooks(cfg);
+
+    expect(result.pruned.map((w) => w.id)).toEqual(['deleted', 'stale']);
+    expect(result.failed).toEqual([
+      { webhook: expect.objectContaining({ id: 'paused' }), error: 'Failed to delete webhook: 403 Forbidden' },
+    ]);
+  });
+
+  it('should register webex webhooks and prune commands', () => {
+    const commands: Record<string, { options: string[]; action?: (...args: unknown[]) => void | Promise<void> }> = {};
+    const command = (path: string): CliCommand => ({
+      command: (name) => {
+        const child = path ? `${path} ${name}` : name;
+        commands[child] = { options: [] };
+        return command(child);
+      },
+      description: () => command(path),
+      option: (flags) => {
+        commands[path].options.push(flags);
+        return command(path);
+      },
+      action: (fn) => {
+        commands[path].action = fn;
+        return command(path);
+      },
+    });
+
+    registerWebexCli(command(''), cfg);
+
+    expect(Object.keys(commands)).toEqual(['webex', 'webex webhooks', 'webex webhooks prune']);
+    expect(commands['webex webhooks'].action).toBeTypeOf('function');
+    expect(commands['webex webhooks prune'].options).toEqual(['--dry-run']);
+  });
+});
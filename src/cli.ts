@@ -0,0 +1,164 @@
+/**
+ * Webhook CLI
+ *
+ * Webhooks live in Webex rather than in the config, so accounts that were
+ * deleted, disabled or moved to another transport can leave webhooks behind
+ * that keep receiving traffic. `openclaw webex webhooks` lists the webhooks
+ * of every configured bot and the account each belongs to, and
+ * `openclaw webex webhooks prune` removes the orphaned ones.
+ */
+
+import type { CliCommand } from 'openclaw/plugin-sdk';
+import { webexPlugin } from './channel-plugin';
+import type { ResolvedWebexAccount } from './channel-plugin';
+import { WebexWebhookHandler, isOpenClawWebhookName } from './webhook';
+import type { WebexWebhook } from './types';
+
+/** A registered webhook and the configured account it belongs to */
+export interface WebhookOwnership {
+  webhook: WebexWebhook;
+  /** Account whose name prefix the webhook carries */
+  accountId?: string;
+  /**
+   * Registered by OpenClaw, but no enabled account receives webhooks
+   * through it. Webhooks of other tools are never orphaned.
+   */
+  orphaned: boolean;
+}
+
+/** Outcome of pruning orphaned webhooks */
+export interface WebhookPruneResult {
+  pruned: WebexWebhook[];
+  failed: Array<{ webhook: WebexWebhook; error: string }>;
+}
+
+interface AuditedWebhook extends WebhookOwnership {
+  /** Handler authorized as the bot the webhook is registered with */
+  handler: WebexWebhookHandler;
+}
+
+/**
+ * List each configured bot's webhooks once, even when several accounts
+ * share the bot, and work out who owns each
+ */
+async function audit(cfg: unknown): Promise<AuditedWebhook[]> {
+  const byToken = new Map<string, ResolvedWebexAccount[]>();
+  for (const accountId of webexPlugin.config.listAccountIds(cfg)) {
+    const account = webexPlugin.config.resolveAccount(cfg, accountId);
+    if (account.token) {
+      byToken.set(account.token, [...(byToken.get(account.token) ?? []), account]);
+    }
+  }
+
+  const audited: AuditedWebhook[] = [];
+  for (const accounts of byToken.values()) {
+    const handlers = accounts.map((account) => ({
+      account,
+      handler: new WebexWebhookHandler(account.config, { accountId: account.accountId }),
+    }));
+
+    for (const webhook of await handlers[0].handler.listWebhooks()) {
+      const owner = handlers.find(({ handler }) => handler.isOwnWebhook(webhook))?.account;
+      const receiving = owner?.enabled && (owner.config.transport ?? 'webhook') === 'webhook';
+      audited.push({
+        webhook,
+        accountId: owner?.accountId,
+        orphaned: (owner !== undefined || isOpenClawWebhookName(webhook.name)) && !receiving,
+        handler: handlers[0].handler,
+      });
+    }
+  }
+  return audited;
+}
+
+/**
+ * Every webhook registered by the configured bots, with its owner
+ */
+export async function auditWebhooks(cfg: unknown): Promise<WebhookOwnership[]> {
+  return (await audit(cfg)).map(({ webhook, accountId, orphaned }) => ({ webhook, accountId, orphaned }));
+}
+
+/**
+ * Delete the orphaned webhooks of every configured bot. A failed deletion
+ * is recorded and the rest are still attempted.
+ */
+export async function pruneOrphanedWebhooks(cfg: unknown): Promise<WebhookPruneResult> {
+  const result: WebhookPruneResult = { pruned: [], failed: [] };
+
+  for (const { webhook, orphaned, handler } of await audit(cfg)) {
+    if (!orphaned) continue;
+    try {
+      await handler.deleteWebhook(webhook.id);
+      result.pruned.push(webhook);
+    } catch (error) {
+      result.failed.push({ webhook, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
+
+function describeOwner({ accountId, orphaned }: WebhookOwnership): string {
+  if (accountId) {
+    return orphaned ? `${accountId} (orphaned)` : accountId;
+  }
+  return orphaned ? 'orphaned' : 'not OpenClaw';
+}
+
+function formatWebhook({ id, name, targetUrl, status }: WebexWebhook): string {
+  return `${id}  ${status}  ${name}  ${targetUrl}`;
+}
+
+/**
+ * Add the `webex webhooks` commands to the OpenClaw CLI
+ */
+export function registerWebexCli(program: CliCommand, cfg: unknown): void {
+  const webex = program.command('webex').description('Webex channel tools');
+
+  const webhooks = webex
+    .command('webhooks')
+    .description('List the webhooks registered by the configured bots')
+    .action(async () => {
+      const audited = await auditWebhooks(cfg);
+      if (audited.length === 0) {
+        console.log('No webhooks registered');
+        return;
+      }
+      for (const entry of audited) {
+        console.log(`${formatWebhook(entry.webhook)}  [${describeOwner(entry)}]`);
+      }
+      const orphans = audited.filter((entry) => entry.orphaned).length;
+      if (orphans > 0) {
+        console.log(`\n${orphans} orphaned; remove them with "openclaw webex webhooks prune"`);
+      }
+    });
+
+  webhooks
+    .command('prune')
+    .description('Delete webhooks registered by OpenClaw that no enabled account receives')
+    .option('--dry-run', 'Only list the webhooks that would be deleted')
+    .action(async (...args: unknown[]) => {
+      const { dryRun } = (args[0] ?? {}) as { dryRun?: boolean };
+
+      if (dryRun) {
+        const orphans = (await auditWebhooks(cfg)).filter((entry) => entry.orphaned);
+        for (const entry of orphans) {
+          console.log(`Would delete ${formatWebhook(entry.webhook)}`);
+        }
+        console.log(`${orphans.length} orphaned webhooks`);
+        return;
+      }
+
+      const result = await pruneOrphanedWebhooks(cfg);
+      for (const webhook of result.pruned) {
+        console.log(`Deleted ${formatWebhook(webhook)}`);
+      }
+      for (const { webhook, error } of result.failed) {
+        console.error(`Failed to delete ${formatWebhook(webhook)}: ${error}`);
+      }
+      console.log(`${result.pruned.length} orphaned webhooks deleted`);
+      if (result.failed.length > 0) {
+        process.exitCode = 1;
+      }
+    });
+}
@@ -0,0 +1,104 @@
+/**
+ * Tests for message coalescing helpers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Debouncer, mergeMessageEnvelopes } from './conversation';
+import type { OpenClawEnvelope } from './types';
+
+describe('Debouncer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should flush the whole batch once the window closes', async () => {
+    vi.useFakeTimers();
+    const debouncer = new Debouncer<string>(500);
+    const flush = vi.fn();
+
+    expect(debouncer.add('room-a:person-1', 'one', flush)).toBe(false);
+    expect(debouncer.add('room-a:person-1', 'two', flush)).toBe(true);
+    expect(flush).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(flush).toHaveBeenCalledWith(['one', 'two']);
+  });
+
+  it('should not extend the window for later items', async () => {
+    vi.useFakeTimers();
+    const debouncer = new Debouncer<string>(500);
+    const flush = vi.fn();
+
+    debouncer.add('room-a:person-1', 'one', flush);
+    await vi.advanceTimersByTimeAsync(400);
+    debouncer.add('room-a:person-1', 'two', flush);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(flush).toHaveBeenCalledWith(['one', 'two']);
+  });
+
+  it('should batch keys separately', async () => {
+    vi.useFakeTimers();
+    const debouncer = new Debouncer<string>(500);
+    const flush = vi.fn();
+
+    debouncer.add('room-a:person-1', 'one', flush);
+    debouncer.add('room-a:person-2', 'other', flush);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(flush.mock.calls).toEqual([[['one']], [['other']]]);
+  });
+
+  it('should pass items straight through with a zero window', () => {
+    const flush = vi.fn();
+
+    expect(new Debouncer<string>(0).add('room-a', 'one', flush)).toBe(false);
+    expect(flush).toHaveBeenCalledWith(['one']);
+  });
+});
+
+describe('mergeMessageEnvelopes', () => {
+  const envelope = (id: string, text: string, overrides: Partial<OpenClawEnvelope['metadata']> = {}): OpenClawEnvelope => ({
+    id,
+    kind: 'message',
+    channel: 'webex',
+    conversationId: 'room-123',
+    author: { id: 'person-123', isBot: false },
+    content: { text, markdown: text },
+    metadata: {
+      roomType: 'group',
+      roomId: 'room-123',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      raw: {
+        id,
+        roomId: 'room-123',
+        roomType: 'group',
+        personId: 'person-123',
+        personEmail: 'person@example.com',
+        created: '2024-01-01T00:00:00.000Z',
+      },
+      ...overrides,
+    },
+  });
+
+  it('should return a single envelope unchanged', () => {
+    const only = envelope('message-1', 'hello');
+
+    expect(mergeMessageEnvelopes([only])).toBe(only);
+  });
+
+  it('should join text and keep the last message ID', () => {
+    const merged = mergeMessageEnvelopes([
+      envelope('message-1', 'first', { wasMentioned: true, mentions: ['bot-123'] }),
+      { ...envelope('message-2', 'second'), content: { text: 'second', attachments: [{ type: 'file', url: 'https://example.com/f' }] } },
+    ]);
+
+    expect(merged.id).toBe('message-2');
+    expect(merged.content.text).toBe('first\nsecond');
+    expect(merged.content.markdown).toBe('first');
+    expect(merged.content.attachments).toEqual([{ type: 'file', url: 'https://example.com/f' }]);
+    expect(merged.metadata.wasMentioned).toBe(true);
+    expect(merged.metadata.mentions).toEqual(['bot-123']);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Message Coalescing
+ *
+ * Rapid-fire messages from the same sender can be coalesced into a single
+ * agent turn. Ordering within a room is the work queue's job.
+ */
+
+import type { OpenClawEnvelope, OpenClawAttachment } from './types';
+
+interface PendingBatch<T> {
+  items: T[];
+  flush: (items: T[]) => void;
+}
+
+/**
+ * Collects items that arrive for the same key within a window.
+ *
+ * The window opens with the first item and is not extended by later ones,
+ * so no item waits longer than `windowMs`. When it closes, the whole batch
+ * goes to the flush callback passed with the first item. Adding an item
+ * never waits for the window.
+ */
+export class Debouncer<T> {
+  private windowMs: number;
+  private pending = new Map<string, PendingBatch<T>>();
+
+  constructor(windowMs: number) {
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Add an item to the key's batch, opening one if needed. Returns true
+   * when the item joined a batch that was already open.
+   */
+  add(key: string, item: T, flush: (items: T[]) => void): boolean {
+    if (this.windowMs <= 0) {
+      flush([item]);
+      return false;
+    }
+
+    const batch = this.pending.get(key);
+    if (batch) {
+      batch.items.push(item);
+      return true;
+    }
+
+    const created: PendingBatch<T> = { items: [item], flush };
+    this.pending.set(key, created);
+    setTimeout(() => {
+      this.pending.delete(key);
+      created.flush(created.items);
+    }, this.windowMs);
+    return false;
+  }
+}
+
+/**
+ * Merge consecutive message envelopes from one sender into a single
+ * envelope. The last message supplies the ID, thread and metadata; text,
+ * markdown, attachments and mentions are combined in order.
+ */
+export function mergeMessageEnvelopes(envelopes: OpenClawEnvelope[]): OpenClawEnvelope {
+  if (envelopes.length === 1) {
+    return envelopes[0];
+  }
+
+  const last = envelopes[envelopes.length - 1];
+  const join = (values: Array<string | undefined>) => {
+    const present = values.filter((value): value is string => !!value);
+    return present.length > 0 ? present.join('\n') : undefined;
+  };
+  const attachments: OpenClawAttachment[] = envelopes.flatMap((envelope) => envelope.content.attachments ?? []);
+  const mentions = [...new Set(envelopes.flatMap((envelope) => envelope.metadata.mentions ?? []))];
+
+  return {
+    ...last,
+    content: {
+      ...last.content,
+      text: join(envelopes.map((envelope) => envelope.content.text)),
+      markdown: join(envelopes.map((envelope) => envelope.content.markdown)),
+      attachments: attachments.length > 0 ? attachments : undefined,
+    },
+    metadata: {
+      ...last.metadata,
+      mentions: mentions.length > 0 ? mentions : last.metadata.mentions,
+      wasMentioned: envelopes.some((envelope) => envelope.metadata.wasMentioned),
+    },
+  };
+}
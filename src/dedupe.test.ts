@@ -0,0 +1,152 @@
+/**
+ * Tests for DedupeStore
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DedupeStore, webhookDedupeKey, defaultDedupeStorePath } from './dedupe';
+import type { WebexWebhookPayload } from './types';
+
+describe('DedupeStore', () => {
+  let store: DedupeStore;
+
+  beforeEach(() => {
+    store = new DedupeStore({ ttlMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should claim a new key', async () => {
+    expect(await store.claim('messages:created:message-1')).toBe(true);
+    expect(await store.has('messages:created:message-1')).toBe(true);
+  });
+
+  it('should reject a key already claimed', async () => {
+    await store.claim('messages:created:message-1');
+
+    expect(await store.claim('messages:created:message-1')).toBe(false);
+    expect(await store.claim('messages:created:message-2')).toBe(true);
+  });
+
+  it('should let exactly one of several concurrent claims win', async () => {
+    const results = await Promise.all([
+      store.claim('messages:created:message-1'),
+      store.claim('messages:created:message-1'),
+      store.claim('messages:created:message-1'),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should accept a key again once it has expired', async () => {
+    vi.useFakeTimers();
+    await store.claim('messages:created:message-1');
+
+    vi.advanceTimersByTime(1001);
+
+    expect(await store.has('messages:created:message-1')).toBe(false);
+    expect(await store.claim('messages:created:message-1')).toBe(true);
+  });
+
+  it('should accept a released key again', async () => {
+    await store.claim('messages:created:message-1');
+    await store.release('messages:created:message-1');
+
+    expect(await store.claim('messages:created:message-1')).toBe(true);
+  });
+
+  it('should drop the oldest keys beyond maxEntries', async () => {
+    store = new DedupeStore({ maxEntries: 2 });
+
+    await store.claim('a');
+    await store.claim('b');
+    await store.claim('c');
+
+    expect(await store.has('a')).toBe(false);
+    expect(await store.has('b')).toBe(true);
+    expect(await store.has('c')).toBe(true);
+  });
+
+  describe('file persistence', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'webex-dedupe-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should remember claims across instances', async () => {
+      const filePath = path.join(dir, 'nested', 'dedupe.json');
+      await new DedupeStore({ filePath }).claim('messages:created:message-1');
+
+      const reloaded = new DedupeStore({ filePath });
+
+      expect(await reloaded.claim('messages:created:message-1')).toBe(false);
+      expect(await reloaded.claim('messages:created:message-2')).toBe(true);
+    });
+
+    it('should not reload expired claims', async () => {
+      const filePath = path.join(dir, 'dedupe.json');
+      await fs.writeFile(filePath, JSON.stringify({ entries: { stale: Date.now() - 1 } }));
+
+      expect(await new DedupeStore({ filePath }).claim('stale')).toBe(true);
+    });
+  });
+});
+
+describe('webhookDedupeKey', () => {
+  const payload = (overrides: Partial<WebexWebhookPayload> = {}): WebexWebhookPayload => ({
+    id: 'webhook-id',
+    name: 'Test Webhook',
+    targetUrl: 'https://example.com/webhook',
+    resource: 'messages',
+    event: 'created',
+    orgId: 'org-123',
+    createdBy: 'user-123',
+    appId: 'app-123',
+    ownedBy: 'creator',
+    status: 'active',
+    created: '2024-01-01T00:00:00.000Z',
+    actorId: 'actor-123',
+    data: {
+      id: 'message-123',
+      roomId: 'room-123',
+      personId: 'person-123',
+      created: '2024-01-01T00:00:00.000Z',
+    },
+    ...overrides,
+  });
+
+  it('should key on the resource, event and data ID', () => {
+    expect(webhookDedupeKey(payload())).toBe('messages:created:message-123');
+    expect(webhookDedupeKey(payload({ event: 'deleted' }))).toBe('messages:deleted:message-123');
+  });
+
+  it('should not deduplicate edits', () => {
+    expect(webhookDedupeKey(payload({ event: 'updated' }))).toBeNull();
+  });
+});
+
+describe('defaultDedupeStorePath', () => {
+  const originalStateDir = process.env.OPENCLAW_STATE_DIR;
+
+  afterEach(() => {
+    if (originalStateDir === undefined) {
+      delete process.env.OPENCLAW_STATE_DIR;
+    } else {
+      process.env.OPENCLAW_STATE_DIR = originalStateDir;
+    }
+  });
+
+  it('should use the OpenClaw state dir', () => {
+    process.env.OPENCLAW_STATE_DIR = '/tmp/openclaw-state';
+    expect(defaultDedupeStorePath('work')).toBe(path.join('/tmp/openclaw-state', 'webex', 'dedupe-work.json'));
+  });
+});
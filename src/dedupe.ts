@@ -0,0 +1,132 @@
+/**
+ * Webhook Dedupe Store
+ *
+ * Webex redelivers a webhook when it does not get a timely response. The
+ * store remembers which deliveries have already been claimed for a while so
+ * a redelivery is acknowledged without running the agent a second time.
+ * Entries live in memory and are optionally persisted to a JSON file, so
+ * suppression survives a restart.
+ */
+
+import { LruCache } from './cache';
+import { JsonStateFile, statePath } from './state';
+import type { WebexWebhookPayload } from './types';
+
+/** Deliveries are remembered for one hour by default */
+export const DEFAULT_DEDUPE_TTL_MS = 60 * 60 * 1000;
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+export interface DedupeStoreOptions {
+  /** JSON file to persist to; in-memory only when omitted */
+  filePath?: string;
+
+  /** How long a claimed key is remembered */
+  ttlMs?: number;
+
+  /** Maximum number of remembered keys before the oldest are dropped */
+  maxEntries?: number;
+}
+
+interface DedupeFile {
+  entries?: Record<string, number>;
+}
+
+export class DedupeStore {
+  private file?: JsonStateFile<DedupeFile>;
+  private ttlMs: number;
+  // Claimed keys, valued by when they expire
+  private entries: LruCache<string, number>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(options: DedupeStoreOptions = {}) {
+    this.file = options.filePath
+      ? new JsonStateFile(options.filePath, { label: 'dedupe store' })
+      : undefined;
+    this.ttlMs = options.ttlMs ?? DEFAULT_DEDUPE_TTL_MS;
+    this.entries = new LruCache({ maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES, ttlMs: this.ttlMs });
+  }
+
+  /**
+   * Claim a key for processing. Returns false when the key was already
+   * claimed and has not expired, i.e. the delivery is a duplicate.
+   *
+   * The check and the claim happen without yielding, so concurrent
+   * deliveries of the same key see exactly one winner.
+   */
+  async claim(key: string): Promise<boolean> {
+    await this.load();
+
+    if (this.entries.has(key)) {
+      return false;
+    }
+
+    this.entries.set(key, Date.now() + this.ttlMs);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Forget a claimed key, e.g. after processing failed, so a redelivery is
+   * handled again
+   */
+  async release(key: string): Promise<void> {
+    await this.load();
+    if (this.entries.delete(key)) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Check whether a key is currently claimed
+   */
+  async has(key: string): Promise<boolean> {
+    await this.load();
+    return this.entries.has(key);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+    }
+    return this.loaded;
+  }
+
+  private async readFile(): Promise<void> {
+    const parsed = await this.file?.read();
+    const now = Date.now();
+    const sorted = Object.entries(parsed?.entries ?? {}).sort(([, a], [, b]) => a - b);
+    for (const [key, expiresAt] of sorted) {
+      if (typeof expiresAt === 'number' && expiresAt > now) {
+        this.entries.set(key, expiresAt, expiresAt - now);
+      }
+    }
+  }
+
+  private async save(): Promise<void> {
+    await this.file?.write({ entries: Object.fromEntries(this.entries.entries()) });
+  }
+}
+
+/**
+ * Key identifying a webhook delivery, or null when it should not be
+ * deduplicated.
+ *
+ * Keys are built from `data.id`, qualified by resource and event so that
+ * deleting a message is not mistaken for a redelivery of its creation.
+ * Edits are never deduplicated: every edit of a message carries the same
+ * ID, so a later edit would look like a repeat of the first.
+ */
+export function webhookDedupeKey(payload: WebexWebhookPayload): string | null {
+  if (!payload.data?.id || payload.event === 'updated') {
+    return null;
+  }
+  return `${payload.resource}:${payload.event}:${payload.data.id}`;
+}
+
+/**
+ * Default location of a persisted dedupe store
+ */
+export function defaultDedupeStorePath(accountId: string): string {
+  return statePath('webex', `dedupe-${accountId}.json`);
+}
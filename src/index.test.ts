@@ -74,6 +74,7 @@ describe('index exports', () => {
       const mockApi = {
         registerChannel: vi.fn(),
         registerHttpHandler: vi.fn(),
+        registerCli: vi.fn(),
         runtime: {},
       };
 
@@ -85,6 +86,8 @@ describe('index exports', () => {
       expect(mockApi.registerChannel).toHaveBeenCalledWith({ plugin: webexPlugin });
       // Verify registerHttpHandler was called
       expect(mockApi.registerHttpHandler).toHaveBeenCalledTimes(1);
+      // Verify the webhook CLI was registered
+      expect(mockApi.registerCli).toHaveBeenCalledWith(expect.any(Function), { commands: ['webex'] });
     });
   });
 
@@ -151,7 +154,12 @@ describe('index exports', () => {
       });
 
       it('should have textChunkLimit', () => {
-        expect(webexPlugin.outbound.textChunkLimit).toBe(7000);
+        expect(webexPlugin.outbound.textChunkLimit).toBe(7439);
+      });
+
+      it('should have a markdown chunker', () => {
+        expect(webexPlugin.outbound.chunkerMode).toBe('markdown');
+        expect(webexPlugin.outbound.chunker!('a'.repeat(10), 4)).toEqual(['aaaa', 'aaaa', 'aa']);
       });
 
       it('should have sendText function', () => {
@@ -11,20 +11,55 @@ export { default } from "./plugin";
 export { id } from "./plugin";
 
 // Re-export existing classes for backwards compatibility and advanced usage
-export { WebexSender, WebexApiRequestError } from "./send";
-export { WebexWebhookHandler, WebhookValidationError } from "./webhook";
+export { WebexSender, WebexApiRequestError, WebexMessageEditError } from "./send";
+export type { WebexMessageEditErrorReason } from "./send";
+export { WebexWebhookHandler, WebhookValidationError, verifyWebhookSignature, isOpenClawWebhookName } from "./webhook";
 export { WebexChannel, createWebexChannel, createAndInitialize } from "./channel";
 export { webexPlugin } from "./channel-plugin";
+export { PairingStore, defaultPairingStorePath, defaultAllowFromStorePath } from "./pairing";
+export { normalizeDmPolicy, normalizeAllowEntry, matchesAllowFrom } from "./policy";
+export { PeopleLookup } from "./people";
+export { WebexMediaDownloader, WebexMediaError } from "./media";
+export { chunkMarkdown, WEBEX_MAX_MESSAGE_BYTES } from "./chunker";
+export { toWebexMarkdown } from "./markdown";
+export { WebexStreamingReply, DEFAULT_STREAM_EDIT_INTERVAL_MS } from "./streaming";
+export type { WebexStreamingReplyOptions } from "./streaming";
+export { DedupeStore, DEFAULT_DEDUPE_TTL_MS, defaultDedupeStorePath, webhookDedupeKey } from "./dedupe";
+export type { DedupeStoreOptions } from "./dedupe";
+export { KeyedWorkQueue, DEFAULT_QUEUE_CONCURRENCY, DEFAULT_QUEUE_MAX_PENDING } from "./queue";
+export type { WorkQueueOptions, WorkQueueStats } from "./queue";
+export { Debouncer, mergeMessageEnvelopes } from "./conversation";
+export { WebhookReconciler, DEFAULT_RECONCILE_INTERVAL_MS, describeDrift } from "./reconciler";
+export type { WebhookReconcilerOptions } from "./reconciler";
+export { MercuryClient, DEFAULT_DEVICE_REGISTRATION_URL, DEFAULT_PING_INTERVAL_MS, activityToWebhookPayload, toHydraId } from "./mercury";
+export type { MercuryClientOptions, MercuryActivity, WebexDevice } from "./mercury";
+export { WebexPoller, DEFAULT_POLL_MIN_INTERVAL_MS, DEFAULT_POLL_MAX_INTERVAL_MS, messageToWebhookPayload, defaultPollCursorPath } from "./poller";
+export type { WebexPollerOptions } from "./poller";
+export { webhookRoutePath, deriveWebhookUrl, checkWebhookUrl, pingWebhookUrl, SELF_TEST_HEADER } from "./route";
+export type { WebhookSelfTestResult } from "./route";
+export { auditWebhooks, pruneOrphanedWebhooks, registerWebexCli } from "./cli";
+export type { WebhookOwnership, WebhookPruneResult } from "./cli";
 
 // Re-export types
 export type {
   WebexChannelConfig,
   DmPolicy,
+  GroupPolicy,
+  WebexTransport,
+  WebexPollingConfig,
+  MarkdownTableStyle,
+  WebexMarkdownConfig,
+  WebexStreamingConfig,
+  WebexDedupeConfig,
+  WebexQueueConfig,
+  WebexDebounceConfig,
   WebexPerson,
   WebexRoom,
+  WebexMembership,
   WebexMessage,
   WebexAttachment,
   AdaptiveCard,
+  WebexAttachmentAction,
   WebexWebhook,
   WebexWebhookResource,
   WebexWebhookEvent,
@@ -32,15 +67,27 @@ export type {
   WebexWebhookData,
   CreateMessageRequest,
   CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookReconcileResult,
   WebexApiError,
   PaginatedResponse,
   OpenClawEnvelope,
+  OpenClawEnvelopeKind,
   OpenClawAttachment,
+  OpenClawCardAction,
+  OpenClawMembershipEvent,
   OpenClawOutboundMessage,
   WebexChannelPlugin,
   WebhookHandler,
   RetryOptions,
   RequestOptions,
+  OutboundFile,
+  WebexSendResult,
 } from "./types";
 
 export type { ResolvedWebexAccount } from "./channel-plugin";
+export type { PairingRequest, PairingStoreOptions } from "./pairing";
+export type { ResolvedDmPolicy } from "./policy";
+export type { PeopleLookupOptions } from "./people";
+export type { WebexFileInfo, WebexDownloadedMedia, WebexMediaDownloaderOptions, WebexMediaErrorReason } from "./media";
+export type { WebexWebhookHandlerOptions } from "./webhook";
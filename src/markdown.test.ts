@@ -0,0 +1,117 @@
+/**
+ * Tests for the Webex markdown translator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toWebexMarkdown } from './markdown';
+
+describe('toWebexMarkdown', () => {
+  const table = [
+    '| Name | Score |',
+    '|:-----|------:|',
+    '| **Alice** | 9 |',
+    '| Bob | 10 |',
+  ].join('\n');
+
+  describe('tables', () => {
+    it('should render tables as aligned code blocks by default', () => {
+      expect(toWebexMarkdown(`Results:\n${table}\nDone`)).toBe(
+        [
+          'Results:',
+          '```',
+          'Name  | Score',
+          '------|------',
+          'Alice |     9',
+          'Bob   |    10',
+          '```',
+          'Done',
+        ].join('\n')
+      );
+    });
+
+    it('should render tables as bullet lists', () => {
+      expect(toWebexMarkdown(table, { tables: 'list' })).toBe(
+        '- **Name**: **Alice**, **Score**: 9\n- **Name**: Bob, **Score**: 10'
+      );
+    });
+
+    it('should keep tables when configured', () => {
+      expect(toWebexMarkdown(table, { tables: 'keep' })).toBe(table);
+    });
+
+    it('should handle escaped pipes in cells', () => {
+      const escaped = '| Expr |\n| --- |\n| a \\| b |';
+
+      expect(toWebexMarkdown(escaped)).toBe('```\nExpr\n-----\na | b\n```');
+    });
+
+    it('should not treat a lone pipe as a table', () => {
+      expect(toWebexMarkdown('either a | b\nor c')).toBe('either a | b\nor c');
+    });
+  });
+
+  describe('task lists', () => {
+    it('should replace checkboxes with emoji', () => {
+      expect(toWebexMarkdown('- [x] done\n- [ ] todo\n1. [X] numbered')).toBe('- ✅ done\n- ⬜ todo\n1. ✅ numbered');
+    });
+
+    it('should leave checkboxes when disabled', () => {
+      expect(toWebexMarkdown('- [ ] todo', { taskListEmoji: false })).toBe('- [ ] todo');
+    });
+  });
+
+  describe('html', () => {
+    it('should strip tags and comments and turn <br> into newlines', () => {
+      expect(toWebexMarkdown('<div>Hello<br/>  <b>world</b></div><!-- hidden -->')).toBe('Hello\n  world');
+    });
+
+    it('should keep Webex mentions and autolinks', () => {
+      const text = '<@personEmail:alice@example.com|Alice> see <https://example.com>';
+
+      expect(toWebexMarkdown(text)).toBe(text);
+    });
+
+    it('should not touch inline code', () => {
+      expect(toWebexMarkdown('use `<div>` here')).toBe('use `<div>` here');
+    });
+
+    it('should keep comments in inline code and code fences', () => {
+      const fenced = '```html\n<!-- keep me -->\n<p>x</p>\n```';
+
+      expect(toWebexMarkdown('see `<!-- x -->` here')).toBe('see `<!-- x -->` here');
+      expect(toWebexMarkdown(`Example:\n${fenced}`)).toBe(`Example:\n${fenced}`);
+    });
+
+    it('should keep angle-bracket text that is not HTML', () => {
+      expect(toWebexMarkdown('returns Promise<void> or Map<string, number>')).toBe('returns Promise<void> or Map<string, number>');
+      expect(toWebexMarkdown('if a<b and c>d')).toBe('if a<b and c>d');
+      expect(toWebexMarkdown('press <Enter> then <custom-thing>')).toBe('press <Enter> then <custom-thing>');
+    });
+
+    it('should strip known elements with attributes and closing slashes', () => {
+      expect(toWebexMarkdown('<span class="x">a</span> <IMG src="y.png" /> <h2>b</h2>')).toBe('a  b');
+    });
+
+    it('should keep HTML when disabled', () => {
+      expect(toWebexMarkdown('<b>x</b>', { stripHtml: false })).toBe('<b>x</b>');
+    });
+  });
+
+  it('should turn headings below level 3 into bold text', () => {
+    expect(toWebexMarkdown('### Keep\n#### Deep ####\n###### Deeper')).toBe('### Keep\n**Deep**\n**Deeper**');
+  });
+
+  it('should flatten nested blockquotes', () => {
+    expect(toWebexMarkdown('> one\n> > two\n>>> three')).toBe('> one\n> two\n> three');
+  });
+
+  it('should leave code fences untouched', () => {
+    const fenced = '```html\n<div>| a |\n| --- |</div>\n- [ ] x\n```';
+
+    expect(toWebexMarkdown(fenced)).toBe(fenced);
+  });
+
+  it('should return the input when disabled', () => {
+    expect(toWebexMarkdown(table, { enabled: false })).toBe(table);
+  });
+});
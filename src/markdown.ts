@@ -0,0 +1,202 @@
+/**
+ * Webex Markdown Dialect Translator
+ *
+ * Webex renders a subset of markdown. GitHub-flavoured constructs that LLMs
+ * like to produce (tables, task lists, nested quotes, raw HTML, deep
+ * headings) are rewritten into something that reads well in a Webex client.
+ * Code fences and inline code are left untouched.
+ */
+
+import type { WebexMarkdownConfig, MarkdownTableStyle } from './types';
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const TASK_ITEM_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]\s+/;
+const DEEP_HEADING_PATTERN = /^\s{0,3}#{4,6}\s+(.*?)\s*#*\s*$/;
+const NESTED_QUOTE_PATTERN = /^(\s*)(?:>\s*){2,}/;
+const HTML_ELEMENTS = [
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'center', 'cite', 'code', 'dd', 'del', 'details',
+  'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'font', 'h[1-6]', 'hr', 'i', 'img', 'ins', 'kbd',
+  'li', 'mark', 'ol', 'p', 'pre', 'q', 's', 'samp', 'small', 'span', 'strike', 'strong', 'sub',
+  'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'tt', 'u', 'ul',
+];
+// Only known elements, with opening tags not glued to a preceding word, so
+// generics like `Promise<void>` and comparisons like `a<b and c>d` survive
+const HTML_TAG_PATTERN = new RegExp(
+  `(?:(?<!\\w)<|</)(?:${HTML_ELEMENTS.join('|')})(?:\\s[^<>]*)?/?>`,
+  'gi',
+);
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+
+type Alignment = 'left' | 'right' | 'center';
+
+interface ResolvedMarkdownOptions {
+  tables: MarkdownTableStyle;
+  taskListEmoji: boolean;
+  stripHtml: boolean;
+}
+
+/**
+ * Translate GitHub-flavoured markdown into Webex-flavoured markdown.
+ * Returns the input unchanged when translation is disabled.
+ */
+export function toWebexMarkdown(markdown: string, config: WebexMarkdownConfig = {}): string {
+  if (config.enabled === false || !markdown) {
+    return markdown;
+  }
+
+  const options: ResolvedMarkdownOptions = {
+    tables: config.tables ?? 'code',
+    taskListEmoji: config.taskListEmoji ?? true,
+    stripHtml: config.stripHtml ?? true,
+  };
+
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Pass code fences through verbatim
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fence) {
+      output.push(line);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      output.push(line);
+      continue;
+    }
+
+    if (options.tables !== 'keep' && line.includes('|') && TABLE_DELIMITER_PATTERN.test(lines[i + 1] ?? '')) {
+      const rows = [line];
+      let j = i + 2;
+      while (j < lines.length && lines[j].includes('|') && lines[j].trim()) {
+        rows.push(lines[j]);
+        j++;
+      }
+      output.push(...renderTable(rows, parseAlignments(lines[i + 1]), options.tables));
+      i = j - 1;
+      continue;
+    }
+
+    output.push(translateLine(line, options));
+  }
+
+  return output.join('\n');
+}
+
+function translateLine(line: string, options: ResolvedMarkdownOptions): string {
+  let result = line;
+
+  const heading = DEEP_HEADING_PATTERN.exec(result);
+  if (heading) {
+    result = `**${heading[1]}**`;
+  }
+
+  result = result.replace(NESTED_QUOTE_PATTERN, '$1> ');
+
+  if (options.taskListEmoji) {
+    result = result.replace(TASK_ITEM_PATTERN, (_match, marker: string, state: string) =>
+      `${marker}${state === ' ' ? '⬜' : '✅'} `,
+    );
+  }
+
+  if (options.stripHtml) {
+    result = mapOutsideCode(result, (text) =>
+      text.replace(HTML_COMMENT_PATTERN, '').replace(/<br\s*\/?>/gi, '\n').replace(HTML_TAG_PATTERN, ''),
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Apply a transform to the parts of a line outside inline code spans
+ */
+function mapOutsideCode(line: string, transform: (text: string) => string): string {
+  return line
+    .split(/(`+[^`]*`+)/)
+    .map((part, index) => (index % 2 === 1 ? part : transform(part)))
+    .join('');
+}
+
+function splitRow(row: string): string[] {
+  let trimmed = row.trim();
+  if (trimmed.startsWith('|')) {
+    trimmed = trimmed.slice(1);
+  }
+  if (trimmed.endsWith('|') && !trimmed.endsWith('\\|')) {
+    trimmed = trimmed.slice(0, -1);
+  }
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function parseAlignments(delimiter: string): Alignment[] {
+  return splitRow(delimiter).map((cell) => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    return 'left';
+  });
+}
+
+function renderTable(rows: string[], alignments: Alignment[], style: MarkdownTableStyle): string[] {
+  const [header, ...body] = rows.map(splitRow);
+
+  if (style === 'list') {
+    return body.map((cells) => {
+      const fields = header.map((name, index) => `**${stripInline(name)}**: ${cells[index] ?? ''}`);
+      return `- ${fields.join(', ')}`;
+    });
+  }
+
+  // Aligned plain-text table inside a code block
+  const plain = [header, ...body].map((cells) => header.map((_, index) => stripInline(cells[index] ?? '')));
+  const widths = header.map((_, index) => Math.max(...plain.map((cells) => displayWidth(cells[index]))));
+  const format = (cells: string[]) =>
+    cells.map((cell, index) => pad(cell, widths[index], alignments[index] ?? 'left')).join(' | ').trimEnd();
+
+  return [
+    '```',
+    format(plain[0]),
+    widths.map((width) => '-'.repeat(width)).join('-|-'),
+    ...plain.slice(1).map(format),
+    '```',
+  ];
+}
+
+/**
+ * Remove inline emphasis, code and link markup, which would show literally
+ * inside a code block
+ */
+function stripInline(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\(([^)]*)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(HTML_TAG_PATTERN, '');
+}
+
+function pad(text: string, width: number, alignment: Alignment): string {
+  const gap = width - displayWidth(text);
+  if (alignment === 'right') {
+    return ' '.repeat(gap) + text;
+  }
+  if (alignment === 'center') {
+    const left = Math.floor(gap / 2);
+    return ' '.repeat(left) + text + ' '.repeat(gap - left);
+  }
+  return text + ' '.repeat(gap);
+}
+
+function displayWidth(text: string): number {
+  return Array.from(text).length;
+}
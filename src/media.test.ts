@@ -0,0 +1,192 @@
+/**
+ * Tests for inbound media download
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  WebexMediaDownloader,
+  WebexMediaError,
+  isAllowedType,
+  parseContentDisposition,
+  removeDownloadedMedia,
+} from './media';
+import type { WebexChannelConfig } from './types';
+
+// Mock node-fetch
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+import fetch from 'node-fetch';
+const mockFetch = fetch as unknown as ReturnType<typeof vi.fn>;
+
+// Helper to create mock Response with headers and a binary body
+function createMockResponse(
+  headers: Record<string, string>,
+  body: Buffer | Error = Buffer.alloc(0),
+  ok = true,
+  status = 200,
+  statusText = 'OK'
+) {
+  return {
+    ok,
+    status,
+    statusText,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    buffer: body instanceof Error ? vi.fn().mockRejectedValue(body) : vi.fn().mockResolvedValue(body),
+  };
+}
+
+describe('WebexMediaDownloader', () => {
+  const fileUrl = 'https://webexapis.com/v1/contents/file-123';
+  const pdfHeaders = {
+    'content-type': 'application/pdf',
+    'content-length': '5',
+    'content-disposition': 'attachment; filename="report.pdf"',
+  };
+
+  let config: WebexChannelConfig;
+  let mediaDir: string;
+  let downloader: WebexMediaDownloader;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    config = {
+      token: 'test-token',
+      webhookUrl: 'https://example.com/webhook',
+      dmPolicy: 'allow',
+    };
+    mediaDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webex-media-'));
+    downloader = new WebexMediaDownloader(config, { mediaDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(mediaDir, { recursive: true, force: true });
+  });
+
+  describe('inspect', () => {
+    it('should read name, type and size from a HEAD request', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(pdfHeaders));
+
+      const info = await downloader.inspect(fileUrl);
+
+      expect(info).toEqual({ url: fileUrl, fileName: 'report.pdf', contentType: 'application/pdf', size: 5 });
+      expect(mockFetch).toHaveBeenCalledWith(fileUrl, {
+        method: 'HEAD',
+        headers: { Authorization: 'Bearer test-token' },
+      });
+    });
+
+    it('should throw when the HEAD request fails', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({}, Buffer.alloc(0), false, 404, 'Not Found'));
+
+      await expect(downloader.inspect(fileUrl)).rejects.toThrow(WebexMediaError);
+    });
+  });
+
+  describe('download', () => {
+    it('should download with the bearer token and write the file', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse(pdfHeaders))
+        .mockResolvedValueOnce(createMockResponse(pdfHeaders, Buffer.from('%PDF-')));
+
+      const media = await downloader.download(fileUrl);
+
+      expect(media).toMatchObject({ fileName: 'report.pdf', contentType: 'application/pdf', size: 5 });
+      expect(path.dirname(media.path)).toBe(mediaDir);
+      expect(media.path).toMatch(/report\.pdf$/);
+      expect(await fs.readFile(media.path, 'utf-8')).toBe('%PDF-');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        fileUrl,
+        expect.objectContaining({
+          method: 'GET',
+          headers: { Authorization: 'Bearer test-token' },
+        })
+      );
+    });
+
+    it('should reject files over the size limit without downloading', async () => {
+      downloader = new WebexMediaDownloader({ ...config, mediaMaxBytes: 4 }, { mediaDir });
+      mockFetch.mockResolvedValueOnce(createMockResponse(pdfHeaders));
+
+      await expect(downloader.download(fileUrl)).rejects.toMatchObject({ reason: 'too_large' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject bodies that exceed the limit while downloading', async () => {
+      downloader = new WebexMediaDownloader({ ...config, mediaMaxBytes: 4 }, { mediaDir });
+      const maxSize = Object.assign(new Error('content size over limit'), { type: 'max-size' });
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ 'content-type': 'application/pdf' }))
+        .mockResolvedValueOnce(createMockResponse({}, maxSize));
+
+      await expect(downloader.download(fileUrl)).rejects.toMatchObject({ reason: 'too_large' });
+      expect(mockFetch).toHaveBeenLastCalledWith(fileUrl, expect.objectContaining({ size: 4 }));
+    });
+
+    it('should reject disallowed types without downloading', async () => {
+      downloader = new WebexMediaDownloader({ ...config, mediaAllowedTypes: ['image/*'] }, { mediaDir });
+      mockFetch.mockResolvedValueOnce(createMockResponse(pdfHeaders));
+
+      await expect(downloader.download(fileUrl)).rejects.toMatchObject({ reason: 'type_not_allowed' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should sanitize file names from the server', async () => {
+      const headers = { ...pdfHeaders, 'content-disposition': 'attachment; filename="../../etc/pass wd"' };
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse(headers))
+        .mockResolvedValueOnce(createMockResponse(headers, Buffer.from('x')));
+
+      const media = await downloader.download(fileUrl);
+
+      expect(path.dirname(media.path)).toBe(mediaDir);
+      expect(path.basename(media.path)).toMatch(/-pass_wd$/);
+    });
+  });
+});
+
+describe('removeDownloadedMedia', () => {
+  it('should delete the files and ignore ones already gone', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'webex-media-'));
+    const file = path.join(dir, 'report.pdf');
+    await fs.writeFile(file, 'x');
+    const item = (filePath: string) => ({ url: 'https://webexapis.com/v1/contents/x', contentType: 'application/pdf', size: 1, path: filePath });
+
+    await removeDownloadedMedia([item(file), item(path.join(dir, 'missing.pdf'))]);
+
+    expect(await fs.readdir(dir)).toEqual([]);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe('isAllowedType', () => {
+  it('should allow everything when the list is empty', () => {
+    expect(isAllowedType('application/zip', [])).toBe(true);
+  });
+
+  it('should match exact types and wildcards', () => {
+    expect(isAllowedType('image/png', ['image/*'])).toBe(true);
+    expect(isAllowedType('application/pdf', ['Application/PDF'])).toBe(true);
+    expect(isAllowedType('video/mp4', ['image/*', 'application/pdf'])).toBe(false);
+  });
+});
+
+describe('parseContentDisposition', () => {
+  it('should parse quoted and bare file names', () => {
+    expect(parseContentDisposition('attachment; filename="a b.txt"')).toBe('a b.txt');
+    expect(parseContentDisposition('attachment; filename=plain.txt')).toBe('plain.txt');
+  });
+
+  it('should prefer the RFC 5987 form', () => {
+    expect(parseContentDisposition("attachment; filename=\"fallback.txt\"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf")).toBe('résumé.pdf');
+  });
+
+  it('should return undefined without a file name', () => {
+    expect(parseContentDisposition(null)).toBeUndefined();
+    expect(parseContentDisposition('inline')).toBeUndefined();
+  });
+});
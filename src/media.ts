@@ -0,0 +1,209 @@
+/**
+ * Webex Inbound Media Download
+ *
+ * Webex file URLs (/contents/{id}) require the bot's bearer token, so inbound
+ * files are downloaded here and handed to the agent as local paths.
+ */
+
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import type { WebexChannelConfig } from './types';
+
+/** Webex caps uploads at 100MB; inbound downloads default to something saner */
+export const DEFAULT_MEDIA_MAX_BYTES = 20 * 1024 * 1024;
+
+export interface WebexFileInfo {
+  url: string;
+  fileName?: string;
+  contentType?: string;
+  size?: number;
+}
+
+export interface WebexDownloadedMedia extends WebexFileInfo {
+  /** Local path the file was written to */
+  path: string;
+  contentType: string;
+  size: number;
+}
+
+export interface WebexMediaDownloaderOptions {
+  /** Directory downloads are written to (defaults to a temp dir) */
+  mediaDir?: string;
+}
+
+export type WebexMediaErrorReason = 'too_large' | 'type_not_allowed' | 'download_failed';
+
+export class WebexMediaDownloader {
+  private config: WebexChannelConfig;
+  private maxBytes: number;
+  private allowedTypes: string[];
+  private mediaDir: string;
+
+  constructor(config: WebexChannelConfig, options: WebexMediaDownloaderOptions = {}) {
+    this.config = config;
+    this.maxBytes = config.mediaMaxBytes ?? DEFAULT_MEDIA_MAX_BYTES;
+    this.allowedTypes = config.mediaAllowedTypes ?? [];
+    this.mediaDir = options.mediaDir ?? path.join(os.tmpdir(), 'openclaw-webex-media');
+  }
+
+  /**
+   * Read a file's name, content type and size without downloading it
+   */
+  async inspect(url: string): Promise<WebexFileInfo> {
+    const response = await fetch(url, {
+      method: 'HEAD',
+      headers: { 'Authorization': `Bearer ${this.config.token}` },
+    });
+
+    if (!response.ok) {
+      throw new WebexMediaError(
+        `Failed to inspect file: ${response.status} ${response.statusText}`,
+        'download_failed',
+        url,
+      );
+    }
+
+    const length = Number(response.headers.get('content-length'));
+    return {
+      url,
+      fileName: parseContentDisposition(response.headers.get('content-disposition')),
+      contentType: parseContentType(response.headers.get('content-type')),
+      size: Number.isFinite(length) && length > 0 ? length : undefined,
+    };
+  }
+
+  /**
+   * Download a file to the media directory, enforcing size and type limits
+   * both before (from HEAD) and during the download
+   */
+  async download(url: string): Promise<WebexDownloadedMedia> {
+    const info = await this.inspect(url);
+    this.checkLimits(info);
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: { 'Authorization': `Bearer ${this.config.token}` },
+      size: this.maxBytes,
+    });
+
+    if (!response.ok) {
+      throw new WebexMediaError(
+        `Failed to download file: ${response.status} ${response.statusText}`,
+        'download_failed',
+        url,
+      );
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await response.buffer();
+    } catch (error) {
+      if ((error as { type?: string }).type === 'max-size') {
+        throw new WebexMediaError(`File exceeds ${this.maxBytes} bytes`, 'too_large', url);
+      }
+      throw new WebexMediaError(`Failed to download file: ${(error as Error).message}`, 'download_failed', url);
+    }
+
+    const contentType = info.contentType ?? parseContentType(response.headers.get('content-type')) ?? 'application/octet-stream';
+    const fileName = info.fileName ?? parseContentDisposition(response.headers.get('content-disposition'));
+    this.checkLimits({ url, contentType, size: buffer.length });
+
+    await fs.mkdir(this.mediaDir, { recursive: true });
+    const filePath = path.join(this.mediaDir, `${crypto.randomUUID()}-${sanitizeFileName(fileName ?? 'file')}`);
+    await fs.writeFile(filePath, buffer, { mode: 0o600 });
+
+    return { url, fileName, contentType, size: buffer.length, path: filePath };
+  }
+
+  private checkLimits(info: WebexFileInfo): void {
+    if (info.size !== undefined && info.size > this.maxBytes) {
+      throw new WebexMediaError(`File is ${info.size} bytes, limit is ${this.maxBytes}`, 'too_large', info.url);
+    }
+    if (info.contentType && !isAllowedType(info.contentType, this.allowedTypes)) {
+      throw new WebexMediaError(`File type ${info.contentType} is not allowed`, 'type_not_allowed', info.url);
+    }
+  }
+}
+
+/**
+ * Delete downloaded files once the agent is done with them. Failures are
+ * logged, not thrown.
+ */
+export async function removeDownloadedMedia(media: WebexDownloadedMedia[]): Promise<void> {
+  await Promise.all(media.map(async (item) => {
+    try {
+      await fs.rm(item.path, { force: true });
+    } catch (error) {
+      console.error('Failed to delete downloaded media:', item.path, error);
+    }
+  }));
+}
+
+/**
+ * Check a MIME type against allowed patterns such as `image/*`.
+ * An empty list allows everything.
+ */
+export function isAllowedType(contentType: string, allowedTypes: string[]): boolean {
+  if (allowedTypes.length === 0) {
+    return true;
+  }
+  const [type] = contentType.toLowerCase().split('/');
+  return allowedTypes.some((raw) => {
+    const pattern = raw.trim().toLowerCase();
+    return pattern === '*/*' || pattern === contentType.toLowerCase() || pattern === `${type}/*`;
+  });
+}
+
+/**
+ * Extract the file name from a Content-Disposition header, preferring the
+ * RFC 5987 `filename*` form
+ */
+export function parseContentDisposition(header: string | null): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const extended = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // Fall through to the plain form
+    }
+  }
+
+  const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(header);
+  const name = plain?.[1] ?? plain?.[2]?.trim();
+  return name || undefined;
+}
+
+function parseContentType(header: string | null): string | undefined {
+  const type = header?.split(';')[0].trim().toLowerCase();
+  return type || undefined;
+}
+
+function sanitizeFileName(name: string): string {
+  return path.basename(name).replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+}
+
+/**
+ * Custom error for rejected or failed media downloads
+ */
+export class WebexMediaError extends Error {
+  readonly reason: WebexMediaErrorReason;
+  readonly url: string;
+
+  constructor(message: string, reason: WebexMediaErrorReason, url: string) {
+    super(message);
+    this.name = 'WebexMediaError';
+    this.reason = reason;
+    this.url = url;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, WebexMediaError);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Tests for bot mention helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isBotMentioned, extractMentionTexts, stripBotMention } from './mentions';
+import type { BotIdentity } from './mentions';
+
+// Base64 of ciscospark://us/PEOPLE/bot-uuid
+const BOT_ID = Buffer.from('ciscospark://us/PEOPLE/bot-uuid').toString('base64');
+
+const bot: BotIdentity = {
+  id: BOT_ID,
+  displayName: 'Weather Bot',
+  emails: ['weather@webex.bot'],
+};
+
+describe('isBotMentioned', () => {
+  it('should return true when the bot is in mentionedPeople', () => {
+    expect(isBotMentioned(BOT_ID, [BOT_ID])).toBe(true);
+  });
+
+  it('should return true for @all group mentions', () => {
+    expect(isBotMentioned(BOT_ID, [], ['all'])).toBe(true);
+  });
+
+  it('should return false when someone else is mentioned', () => {
+    expect(isBotMentioned(BOT_ID, ['person-123'])).toBe(false);
+  });
+
+  it('should return false without a bot ID', () => {
+    expect(isBotMentioned(null, [BOT_ID])).toBe(false);
+  });
+});
+
+describe('extractMentionTexts', () => {
+  it('should extract mention text matching the decoded bot UUID', () => {
+    const html =
+      '<p><spark-mention data-object-type="person" data-object-id="bot-uuid">Weather</spark-mention> what is the weather?</p>';
+
+    expect(extractMentionTexts(html, BOT_ID)).toEqual(['Weather']);
+  });
+
+  it('should ignore mentions of other people', () => {
+    const html =
+      '<p><spark-mention data-object-type="person" data-object-id="other-uuid">Alice</spark-mention> hi</p>';
+
+    expect(extractMentionTexts(html, BOT_ID)).toEqual([]);
+  });
+
+  it('should return empty array without html', () => {
+    expect(extractMentionTexts(undefined, BOT_ID)).toEqual([]);
+  });
+});
+
+describe('stripBotMention', () => {
+  it('should strip the display name from the start of text', () => {
+    expect(stripBotMention("Weather Bot what's the weather", bot)).toBe("what's the weather");
+  });
+
+  it('should strip a leading first name when the full name is absent', () => {
+    expect(stripBotMention("Weather, what's the weather", bot)).toBe("what's the weather");
+  });
+
+  it('should strip the display name in the middle of text', () => {
+    expect(stripBotMention('hey Weather Bot what is up', bot)).toBe('hey what is up');
+  });
+
+  it('should strip exact mention texts when provided', () => {
+    expect(stripBotMention('WB: forecast please', bot, ['WB'])).toBe('forecast please');
+  });
+
+  it('should strip markdown personId mentions', () => {
+    expect(stripBotMention(`<@personId:${BOT_ID}|Weather Bot> **forecast**`, bot)).toBe('**forecast**');
+  });
+
+  it('should keep later uses of the name once a tag was stripped', () => {
+    expect(stripBotMention(`<@personId:${BOT_ID}|Weather Bot> is Weather Bot online?`, bot)).toBe('is Weather Bot online?');
+    expect(stripBotMention(`<@personId:${BOT_ID}|WB> ask WB`, bot, ['WB'])).toBe('ask WB');
+    expect(
+      stripBotMention('<spark-mention data-object-type="person" data-object-id="bot-uuid">Weather</spark-mention> Weather Bot?', bot)
+    ).toBe('Weather Bot?');
+  });
+
+  it('should strip markdown personEmail mentions', () => {
+    expect(stripBotMention('<@personEmail:weather@webex.bot> forecast', bot)).toBe('forecast');
+  });
+
+  it('should strip spark-mention tags', () => {
+    expect(
+      stripBotMention('<spark-mention data-object-type="person" data-object-id="bot-uuid">Weather</spark-mention> forecast', bot)
+    ).toBe('forecast');
+  });
+
+  it('should leave text without a mention untouched', () => {
+    expect(stripBotMention('what is the forecast', bot)).toBe('what is the forecast');
+  });
+
+  it('should preserve newlines in multi-line markdown', () => {
+    expect(stripBotMention('Weather Bot\n- one\n- two', bot)).toBe('- one\n- two');
+  });
+
+  it('should return undefined for undefined content', () => {
+    expect(stripBotMention(undefined, bot)).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Webex Bot Mention Helpers
+ */
+
+/** Identity of the bot, as returned by /people/me */
+export interface BotIdentity {
+  id: string;
+  displayName: string;
+  emails: string[];
+}
+
+/**
+ * Check whether a message addresses the bot, either directly or via @all
+ */
+export function isBotMentioned(
+  botId: string | null,
+  mentionedPeople?: string[],
+  mentionedGroups?: string[],
+): boolean {
+  if (botId && mentionedPeople?.includes(botId)) {
+    return true;
+  }
+  return mentionedGroups?.includes('all') ?? false;
+}
+
+/**
+ * Extract the visible mention text used for the bot from a message's HTML.
+ *
+ * Webex renders mentions as <spark-mention> tags whose data-object-id holds
+ * the decoded person UUID rather than the base64 API ID.
+ */
+export function extractMentionTexts(html: string | undefined, botId: string): string[] {
+  if (!html) {
+    return [];
+  }
+
+  const ids = new Set([botId, decodePersonUuid(botId)]);
+  const texts: string[] = [];
+  const pattern = /<spark-mention\b([^>]*)>(.*?)<\/spark-mention>/gi;
+
+  for (const match of html.matchAll(pattern)) {
+    const objectId = /data-object-id="([^"]*)"/i.exec(match[1])?.[1];
+    if (objectId && ids.has(objectId)) {
+      texts.push(match[2]);
+    }
+  }
+
+  return texts;
+}
+
+/**
+ * Remove the bot mention from plain text or markdown.
+ *
+ * Uses the exact mention texts when known, otherwise falls back to the bot's
+ * display name anywhere or its first name at the start of the message.
+ */
+export function stripBotMention(
+  content: string | undefined,
+  bot: BotIdentity,
+  mentionTexts: string[] = [],
+): string | undefined {
+  if (!content) {
+    return content;
+  }
+
+  let result = content;
+
+  // Markdown mention syntax and raw spark-mention tags
+  const ids = [bot.id, decodePersonUuid(bot.id)].map(escapeRegExp).join('|');
+  result = result.replace(new RegExp(`<@personId:(?:${ids})(?:\\|[^>]*)?>`, 'g'), ' ');
+  for (const email of bot.emails) {
+    result = result.replace(new RegExp(`<@personEmail:${escapeRegExp(email)}(?:\\|[^>]*)?>`, 'gi'), ' ');
+  }
+  result = result.replace(
+    new RegExp(`<spark-mention\\b[^>]*data-object-id="(?:${ids})"[^>]*>.*?</spark-mention>`, 'gi'),
+    ' ',
+  );
+
+  // Plain text is only a fallback for when no tag marked the mention; once
+  // one did, a later use of the bot's name is part of the message
+  if (result !== content) {
+    return result.trim();
+  }
+
+  if (mentionTexts.length > 0) {
+    for (const text of mentionTexts) {
+      result = removeFirst(result, text);
+    }
+  } else if (bot.displayName) {
+    const withoutName = removeFirst(result, bot.displayName);
+    if (withoutName !== result) {
+      result = withoutName;
+    } else {
+      const firstName = bot.displayName.split(/\s+/)[0];
+      result = result.replace(new RegExp(`^\\s*${escapeRegExp(firstName)}\\b[,:]?[ \\t]*`, 'i'), '');
+    }
+  }
+
+  return result.trim();
+}
+
+function removeFirst(content: string, name: string): string {
+  const pattern = new RegExp(`[ \\t]*${escapeRegExp(name)}[,:]?[ \\t]*`, 'i');
+  return content.replace(pattern, ' ');
+}
+
+function decodePersonUuid(id: string): string {
+  try {
+    const decoded = Buffer.from(id, 'base64').toString('utf-8');
+    const match = /\/PEOPLE\/([^/]+)$/.exec(decoded);
+    return match ? match[1] : id;
+  } catch {
+    return id;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,312 @@
+/**
+ * Tests for the Mercury websocket transport, against a local stand-in server
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { MercuryClient, activityToWebhookPayload, toHydraId } from './mercury';
+import type { MercuryActivity } from './mercury';
+import type { WebexChannelConfig, WebexWebhookPayload } from './types';
+
+// Mock node-fetch
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+import fetch from 'node-fetch';
+const mockFetch = fetch as unknown as ReturnType<typeof vi.fn>;
+
+// Helper to create mock Response
+function createMockResponse(data: unknown, ok = true, status = 200, statusText = 'OK') {
+  return {
+    ok,
+    status,
+    statusText,
+    json: vi.fn().mockResolvedValue(data),
+  };
+}
+
+/** Stand-in for Mercury: accepts connections and records client messages */
+interface StandInMercury {
+  url: string;
+  connections: WebSocket[];
+  /** Text messages received from the client, parsed */
+  received: Array<Record<string, any>>;
+  requestUrls: string[];
+  close(): Promise<void>;
+}
+
+function startMercury(options: { autoPong?: boolean } = {}): Promise<StandInMercury> {
+  const server = new WebSocketServer({ port: 0, host: '127.0.0.1', autoPong: options.autoPong ?? true });
+  const state: Omit<StandInMercury, 'url' | 'close'> = { connections: [], received: [], requestUrls: [] };
+
+  server.on('connection', (socket, req) => {
+    state.connections.push(socket);
+    state.requestUrls.push(req.url ?? '');
+    socket.on('message', (data) => state.received.push(JSON.parse(data.toString())));
+  });
+
+  return new Promise((resolve) => {
+    server.on('listening', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        ...state,
+        url: `ws://127.0.0.1:${port}/mercury`,
+        close: () => new Promise((done) => {
+          state.connections.forEach((socket) => socket.terminate());
+          server.close(() => done());
+        }),
+      });
+    });
+  });
+}
+
+const waitFor = async (check: () => boolean, timeoutMs = 1000) => {
+  for (let waited = 0; waited < timeoutMs && !check(); waited += 10) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+const send = (socket: WebSocket, message: unknown) => socket.send(JSON.stringify(message));
+
+const activity: MercuryActivity = {
+  id: 'activity-uuid',
+  verb: 'post',
+  published: '2024-01-01T00:00:00.000Z',
+  actor: { id: 'person-uuid', emailAddress: 'user@example.com' },
+  object: { objectType: 'comment' },
+  target: { id: 'room-uuid', tags: ['ONE_ON_ONE'] },
+};
+
+describe('MercuryClient', () => {
+  const config: WebexChannelConfig = {
+    token: 'test-token',
+    webhookUrl: '',
+    transport: 'websocket',
+    dmPolicy: 'allow',
+  };
+
+  let mercury: StandInMercury;
+  let client: MercuryClient;
+  let payloads: WebexWebhookPayload[];
+
+  beforeEach(async () => {
+    mockFetch.mockReset();
+    mercury = await startMercury();
+    mockFetch.mockResolvedValue(createMockResponse({
+      url: 'https://wdm.example.com/devices/device-1',
+      webSocketUrl: mercury.url,
+    }));
+    payloads = [];
+    client = new MercuryClient(config, {
+      deviceRegistrationUrl: 'https://wdm.example.com/devices',
+      onPayload: async (payload) => {
+        payloads.push(payload);
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await client.stop();
+    await mercury.close();
+  });
+
+  it('should register a device, connect and authorize', async () => {
+    await client.start();
+    await waitFor(() => mercury.received.length > 0);
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://wdm.example.com/devices',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ 'Authorization': 'Bearer test-token' }),
+      })
+    );
+    expect(client.isConnected).toBe(true);
+    expect(mercury.requestUrls[0]).toBe('/mercury?outboundWireFormat=text');
+    expect(mercury.received[0]).toMatchObject({
+      type: 'authorization',
+      data: { token: 'Bearer test-token' },
+    });
+  });
+
+  it('should acknowledge activities and hand them on as webhook payloads', async () => {
+    await client.start();
+    send(mercury.connections[0], {
+      id: 'event-1',
+      data: { eventType: 'conversation.activity', activity },
+    });
+
+    await waitFor(() => payloads.length > 0);
+
+    expect(mercury.received).toContainEqual({ type: 'ack', messageId: 'event-1' });
+    expect(payloads).toHaveLength(1);
+    expect(payloads[0]).toMatchObject({
+      resource: 'messages',
+      event: 'created',
+      data: {
+        id: toHydraId('MESSAGE', 'activity-uuid'),
+        roomId: toHydraId('ROOM', 'room-uuid'),
+        roomType: 'direct',
+        personId: toHydraId('PEOPLE', 'person-uuid'),
+      },
+    });
+  });
+
+  it('should ignore other event types', async () => {
+    await client.start();
+    send(mercury.connections[0], { id: 'event-2', data: { eventType: 'status.start_typing' } });
+
+    await waitFor(() => mercury.received.some((message) => message.type === 'ack'));
+
+    expect(payloads).toEqual([]);
+  });
+
+  it('should reconnect when the socket drops', async () => {
+    await client.start();
+    mercury.connections[0].terminate();
+
+    await waitFor(() => mercury.connections.length > 1, 3000);
+
+    expect(mercury.connections).toHaveLength(2);
+    // The same device is reused
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete the device on stop', async () => {
+    await client.start();
+    await client.stop();
+
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      'https://wdm.example.com/devices/device-1',
+      expect.objectContaining({ method: 'DELETE' })
+    );
+    expect(client.isConnected).toBe(false);
+  });
+
+  it('should keep retrying when the first connect fails', async () => {
+    const warn = vi.fn();
+    client = new MercuryClient(config, {
+      deviceRegistrationUrl: 'https://wdm.example.com/devices',
+      onPayload: async () => {},
+      log: { warn },
+    });
+    mockFetch.mockResolvedValueOnce(createMockResponse({}, false, 503, 'Service Unavailable'));
+
+    await client.start();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Failed to register device: 503 Service Unavailable'));
+
+    await waitFor(() => client.isConnected, 3000);
+    expect(mercury.connections).toHaveLength(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reconnect when a ping goes unanswered', async () => {
+    await mercury.close();
+    mercury = await startMercury({ autoPong: false });
+    mockFetch.mockResolvedValue(createMockResponse({
+      url: 'https://wdm.example.com/devices/device-1',
+      webSocketUrl: mercury.url,
+    }));
+    client = new MercuryClient(config, {
+      deviceRegistrationUrl: 'https://wdm.example.com/devices',
+      pingIntervalMs: 50,
+      onPayload: async () => {},
+    });
+
+    await client.start();
+    await waitFor(() => mercury.connections.length > 1, 3000);
+
+    expect(mercury.connections).toHaveLength(2);
+  });
+
+  it('should stay connected while pings are answered', async () => {
+    client = new MercuryClient(config, {
+      deviceRegistrationUrl: 'https://wdm.example.com/devices',
+      pingIntervalMs: 50,
+      onPayload: async () => {},
+    });
+
+    await client.start();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(client.isConnected).toBe(true);
+    expect(mercury.connections).toHaveLength(1);
+  });
+});
+
+describe('activityToWebhookPayload', () => {
+  it('should map a group post with mentions', () => {
+    const payload = activityToWebhookPayload({
+      ...activity,
+      object: {
+        objectType: 'comment',
+        mentions: { items: [{ id: 'bot-uuid' }] },
+        groupMentions: { items: [{ groupType: 'all' }] },
+      },
+      target: { id: 'room-uuid', tags: [] },
+    });
+
+    expect(payload?.data).toMatchObject({
+      roomType: 'group',
+      personEmail: 'user@example.com',
+      mentionedPeople: [toHydraId('PEOPLE', 'bot-uuid')],
+      mentionedGroups: ['all'],
+      created: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should map an edit to messages/updated for the original message', () => {
+    const payload = activityToWebhookPayload({ ...activity, parent: { id: 'original-uuid', type: 'edit' } });
+
+    expect(payload).toMatchObject({
+      resource: 'messages',
+      event: 'updated',
+      data: { id: toHydraId('MESSAGE', 'original-uuid') },
+    });
+  });
+
+  it('should map a delete to messages/deleted', () => {
+    const payload = activityToWebhookPayload({ ...activity, verb: 'delete', object: { id: 'deleted-uuid' } });
+
+    expect(payload).toMatchObject({
+      resource: 'messages',
+      event: 'deleted',
+      data: { id: toHydraId('MESSAGE', 'deleted-uuid') },
+    });
+  });
+
+  it('should map a card submission to attachmentActions/created', () => {
+    const payload = activityToWebhookPayload({ ...activity, verb: 'cardAction', parent: { id: 'card-uuid' } });
+
+    expect(payload).toMatchObject({
+      resource: 'attachmentActions',
+      event: 'created',
+      data: {
+        id: toHydraId('ATTACHMENT_ACTION', 'activity-uuid'),
+        messageId: toHydraId('MESSAGE', 'card-uuid'),
+      },
+    });
+  });
+
+  it('should map membership changes', () => {
+    const added = activityToWebhookPayload({ ...activity, verb: 'add', object: { id: 'bot-uuid' } });
+    const left = activityToWebhookPayload({ ...activity, verb: 'leave', object: { id: 'bot-uuid' } });
+
+    expect(added).toMatchObject({ resource: 'memberships', event: 'created', data: { personId: toHydraId('PEOPLE', 'bot-uuid') } });
+    expect(left).toMatchObject({ resource: 'memberships', event: 'deleted' });
+  });
+
+  it('should skip activities the plugin does not handle', () => {
+    expect(activityToWebhookPayload({ ...activity, verb: 'acknowledge' })).toBeNull();
+    expect(activityToWebhookPayload({ ...activity, target: undefined })).toBeNull();
+  });
+});
+
+describe('toHydraId', () => {
+  it('should encode an ID the way the REST API does', () => {
+    expect(toHydraId('ROOM', 'abc')).toBe('Y2lzY29zcGFyazovL3VzL1JPT00vYWJj');
+    expect(toHydraId('ROOM', 'abcd')).not.toMatch(/=$/);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Webex Mercury Websocket Transport
+ *
+ * For deployments that cannot expose a public webhook URL. The bot registers
+ * a device and holds open the Mercury websocket Webex clients use. Mercury
+ * activities carry encrypted content, so each one is turned into the
+ * equivalent webhook payload (IDs only) and fed through the normal webhook
+ * path, which fetches the decrypted message from the REST API.
+ */
+
+import * as crypto from 'crypto';
+import fetch from 'node-fetch';
+import WebSocket from 'ws';
+import type { WebexChannelConfig, WebexWebhookPayload } from './types';
+
+export const DEFAULT_DEVICE_REGISTRATION_URL = 'https://wdm-a.wbx2.com/wdm/api/v1/devices';
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60_000;
+
+/** How often the websocket is pinged; a ping left unanswered until the next one drops it */
+export const DEFAULT_PING_INTERVAL_MS = 30_000;
+
+const DEVICE_DETAILS = {
+  deviceName: 'openclaw-webex',
+  deviceType: 'DESKTOP',
+  localizedModel: 'nodeJS',
+  model: 'nodeJS',
+  name: 'openclaw-webex',
+  systemName: 'openclaw-webex',
+  systemVersion: '1.0',
+};
+
+/** A device registered with Webex's device manager */
+export interface WebexDevice {
+  /** Device URL, used to delete the device */
+  url: string;
+  /** Mercury websocket URL for this device */
+  webSocketUrl: string;
+}
+
+/** The parts of a Mercury conversation activity the plugin reads */
+export interface MercuryActivity {
+  id: string;
+  verb: string;
+  published?: string;
+  actor?: { id: string; emailAddress?: string; displayName?: string };
+  object?: {
+    id?: string;
+    objectType?: string;
+    mentions?: { items?: Array<{ id: string }> };
+    groupMentions?: { items?: Array<{ groupType?: string }> };
+  };
+  target?: { id: string; tags?: string[] };
+  parent?: { id: string; type?: string };
+}
+
+interface MercuryEvent {
+  id?: string;
+  data?: {
+    eventType?: string;
+    activity?: MercuryActivity;
+  };
+}
+
+export interface MercuryClientOptions {
+  /** Receives each activity as a webhook payload */
+  onPayload: (payload: WebexWebhookPayload) => Promise<void>;
+
+  /** Device manager endpoint (defaults to Webex's) */
+  deviceRegistrationUrl?: string;
+
+  /** Keepalive ping interval (defaults to DEFAULT_PING_INTERVAL_MS) */
+  pingIntervalMs?: number;
+
+  log?: {
+    info?(msg: string): void;
+    warn?(msg: string): void;
+    error?(msg: string): void;
+  };
+}
+
+export class MercuryClient {
+  private config: WebexChannelConfig;
+  private options: MercuryClientOptions;
+  private deviceRegistrationUrl: string;
+  private device: WebexDevice | null = null;
+  private socket: WebSocket | null = null;
+  private stopped = false;
+  private reconnectDelayMs = INITIAL_RECONNECT_DELAY_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: WebexChannelConfig, options: MercuryClientOptions) {
+    this.config = config;
+    this.options = options;
+    this.deviceRegistrationUrl = options.deviceRegistrationUrl ?? DEFAULT_DEVICE_REGISTRATION_URL;
+  }
+
+  /**
+   * Register a device and open the websocket. When that fails it is retried
+   * with backoff, like a dropped connection.
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    try {
+      await this.connect();
+    } catch (error) {
+      this.options.log?.warn?.(`Mercury connect failed, retrying: ${error instanceof Error ? error.message : error}`);
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Close the websocket and remove the device
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+
+    if (this.device) {
+      const device = this.device;
+      this.device = null;
+      await this.deleteDevice(device).catch((error) => {
+        this.options.log?.warn?.(`failed to delete Webex device: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+  }
+
+  get isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  private async connect(): Promise<void> {
+    if (!this.device) {
+      this.device = await this.registerDevice();
+    }
+
+    const url = new URL(this.device.webSocketUrl);
+    url.searchParams.set('outboundWireFormat', 'text');
+    const socket = new WebSocket(url.toString(), {
+      headers: { 'Authorization': `Bearer ${this.config.token}` },
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        socket.once('open', resolve);
+        socket.once('error', reject);
+      });
+    } catch (error) {
+      // The device may have expired; register a fresh one next time
+      this.device = null;
+      throw error;
+    }
+    socket.removeAllListeners('error');
+    if (this.stopped) {
+      socket.close();
+      return;
+    }
+
+    // A half-open connection never closes by itself; drop it once a ping
+    // goes unanswered and let the close handler reconnect
+    let awaitingPong = false;
+    socket.on('pong', () => {
+      awaitingPong = false;
+    });
+    const keepalive = setInterval(() => {
+      if (awaitingPong) {
+        this.options.log?.warn?.('Mercury websocket missed a pong');
+        socket.terminate();
+        return;
+      }
+      awaitingPong = true;
+      socket.ping();
+    }, this.options.pingIntervalMs ?? DEFAULT_PING_INTERVAL_MS);
+
+    socket.on('message', (data) => this.handleMessage(socket, data.toString()));
+    socket.on('error', (error: Error) => {
+      this.options.log?.warn?.(`Mercury websocket error: ${error.message}`);
+    });
+    socket.on('close', (code: number, reason: Buffer) => {
+      clearInterval(keepalive);
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      if (!this.stopped) {
+        this.options.log?.warn?.(`Mercury websocket closed (${code}${reason.length ? ` ${reason}` : ''}), reconnecting`);
+        this.scheduleReconnect();
+      }
+    });
+
+    this.socket = socket;
+    this.reconnectDelayMs = INITIAL_RECONNECT_DELAY_MS;
+    socket.send(JSON.stringify({
+      id: crypto.randomUUID(),
+      type: 'authorization',
+      data: { token: `Bearer ${this.config.token}` },
+    }));
+    this.options.log?.info?.('Mercury websocket connected');
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.stopped) {
+      return;
+    }
+    const delay = this.reconnectDelayMs;
+    this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, MAX_RECONNECT_DELAY_MS);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((error) => {
+        this.options.log?.warn?.(`Mercury reconnect failed: ${error instanceof Error ? error.message : error}`);
+        this.scheduleReconnect();
+      });
+    }, delay);
+  }
+
+  private handleMessage(socket: WebSocket, text: string): void {
+    let event: MercuryEvent;
+    try {
+      event = JSON.parse(text) as MercuryEvent;
+    } catch {
+      this.options.log?.warn?.('Ignoring malformed Mercury message');
+      return;
+    }
+
+    // Mercury redelivers events that are not acknowledged
+    if (event.id && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'ack', messageId: event.id }));
+    }
+
+    if (event.data?.eventType !== 'conversation.activity' || !event.data.activity) {
+      return;
+    }
+
+    const payload = activityToWebhookPayload(event.data.activity);
+    if (!payload) {
+      return;
+    }
+
+    this.options.onPayload(payload).catch((error) => {
+      this.options.log?.error?.(`Mercury activity error: ${error instanceof Error ? error.message : error}`);
+    });
+  }
+
+  private async registerDevice(): Promise<WebexDevice> {
+    const response = await fetch(this.deviceRegistrationUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(DEVICE_DETAILS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to register device: ${response.status} ${response.statusText}`);
+    }
+
+    const device = await response.json() as WebexDevice;
+    if (!device.webSocketUrl) {
+      throw new Error('Device registration returned no webSocketUrl');
+    }
+    return device;
+  }
+
+  private async deleteDevice(device: WebexDevice): Promise<void> {
+    const response = await fetch(device.url, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${this.config.token}` },
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete device: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Encode a Mercury UUID as the REST API ("Hydra") ID of the given type
+ */
+export function toHydraId(type: 'MESSAGE' | 'ROOM' | 'PEOPLE' | 'ATTACHMENT_ACTION' | 'MEMBERSHIP', uuid: string): string {
+  return Buffer.from(`ciscospark://us/${type}/${uuid}`).toString('base64').replace(/=+$/, '');
+}
+
+/**
+ * Translate a Mercury activity into the webhook payload Webex would have
+ * sent for it, or null for activities the plugin does not handle
+ */
+export function activityToWebhookPayload(activity: MercuryActivity): WebexWebhookPayload | null {
+  if (!activity.target?.id || !activity.actor?.id) {
+    return null;
+  }
+
+  const created = activity.published ?? new Date().toISOString();
+  const roomId = toHydraId('ROOM', activity.target.id);
+  const roomType = activity.target.tags?.includes('ONE_ON_ONE') ? 'direct' : 'group';
+  const actorId = toHydraId('PEOPLE', activity.actor.id);
+
+  const payload = (
+    resource: WebexWebhookPayload['resource'],
+    event: WebexWebhookPayload['event'],
+    data: Omit<WebexWebhookPayload['data'], 'roomId' | 'roomType' | 'created'>,
+  ): WebexWebhookPayload => ({
+    id: 'mercury',
+    name: 'OpenClaw Mercury',
+    targetUrl: '',
+    resource,
+    event,
+    orgId: '',
+    createdBy: '',
+    appId: '',
+    ownedBy: 'creator',
+    status: 'active',
+    created,
+    actorId,
+    data: { roomId, roomType, created, ...data },
+  });
+
+  switch (activity.verb) {
+    case 'post':
+    case 'share': {
+      const mentionedPeople = activity.object?.mentions?.items?.map((item) => toHydraId('PEOPLE', item.id));
+      const mentionedGroups = activity.object?.groupMentions?.items
+        ?.map((item) => item.groupType)
+        .filter((groupType): groupType is string => !!groupType);
+      const edited = activity.parent?.type === 'edit';
+      return payload('messages', edited ? 'updated' : 'created', {
+        id: toHydraId('MESSAGE', edited ? activity.parent!.id : activity.id),
+        personId: actorId,
+        personEmail: activity.actor.emailAddress,
+        mentionedPeople: mentionedPeople?.length ? mentionedPeople : undefined,
+        mentionedGroups: mentionedGroups?.length ? mentionedGroups : undefined,
+      });
+    }
+
+    case 'delete':
+      if (!activity.object?.id) {
+        return null;
+      }
+      return payload('messages', 'deleted', {
+        id: toHydraId('MESSAGE', activity.object.id),
+        personId: actorId,
+        personEmail: activity.actor.emailAddress,
+      });
+
+    case 'cardAction':
+      return payload('attachmentActions', 'created', {
+        id: toHydraId('ATTACHMENT_ACTION', activity.id),
+        personId: actorId,
+        messageId: activity.parent ? toHydraId('MESSAGE', activity.parent.id) : undefined,
+      });
+
+    case 'add':
+    case 'leave':
+      if (!activity.object?.id) {
+        return null;
+      }
+      return payload('memberships', activity.verb === 'add' ? 'created' : 'deleted', {
+        id: toHydraId('MEMBERSHIP', `${activity.object.id}:${activity.target.id}`),
+        personId: toHydraId('PEOPLE', activity.object.id),
+      });
+
+    default:
+      return null;
+  }
+}
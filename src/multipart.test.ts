@@ -0,0 +1,50 @@
+/**
+ * Tests for multipart upload helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { buildMultipartBody, guessContentType, resolveUpload } from './multipart';
+
+describe('guessContentType', () => {
+  it('should map common extensions case-insensitively', () => {
+    expect(guessContentType('chart.PNG')).toBe('image/png');
+    expect(guessContentType('voice.opus')).toBe('audio/opus');
+  });
+
+  it('should fall back to application/octet-stream', () => {
+    expect(guessContentType('blob')).toBe('application/octet-stream');
+  });
+});
+
+describe('resolveUpload', () => {
+  it('should default the name of in-memory uploads', async () => {
+    const upload = await resolveUpload({ data: Buffer.from('x') });
+
+    expect(upload).toEqual({ fileName: 'file', contentType: 'application/octet-stream', data: Buffer.from('x') });
+  });
+
+  it('should collect string chunks from streams', async () => {
+    const upload = await resolveUpload({ data: Readable.from(['a', 'b']), fileName: 'ab.txt' });
+
+    expect(upload.data.toString()).toBe('ab');
+    expect(upload.contentType).toBe('text/plain');
+  });
+});
+
+describe('buildMultipartBody', () => {
+  it('should encode fields and the file part between boundaries', () => {
+    const { contentType, body } = buildMultipartBody(
+      { roomId: 'room-123', markdown: undefined },
+      'files',
+      { fileName: 'a"b.txt', contentType: 'text/plain', data: Buffer.from('hello') }
+    );
+    const boundary = contentType.split('boundary=')[1];
+
+    expect(body.toString()).toBe(
+      `--${boundary}\r\nContent-Disposition: form-data; name="roomId"\r\n\r\nroom-123\r\n` +
+      `--${boundary}\r\nContent-Disposition: form-data; name="files"; filename="a%22b.txt"\r\n` +
+      `Content-Type: text/plain\r\n\r\nhello\r\n--${boundary}--\r\n`
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Multipart Upload Helpers
+ *
+ * Webex accepts one local file per message as multipart/form-data. Uploads
+ * are read fully into memory first so a failed request can be retried with
+ * the same body, which a consumed stream would not allow.
+ */
+
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { OutboundFile } from './types';
+
+/** Content types for common agent-generated files, keyed by extension */
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/opus',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+
+/** An upload with its content read into memory */
+export interface ResolvedUpload {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/** A ready-to-send multipart/form-data body */
+export interface MultipartBody {
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * Read an outbound file from a path, Buffer or stream
+ */
+export async function resolveUpload(file: OutboundFile): Promise<ResolvedUpload> {
+  let data: Buffer;
+  let fileName = file.fileName;
+
+  if (typeof file.data === 'string') {
+    const filePath = file.data.startsWith('file://') ? new URL(file.data).pathname : file.data;
+    data = await fs.readFile(filePath);
+    fileName = fileName ?? path.basename(filePath);
+  } else if (Buffer.isBuffer(file.data)) {
+    data = file.data;
+  } else {
+    const chunks: Buffer[] = [];
+    for await (const chunk of file.data) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string));
+    }
+    data = Buffer.concat(chunks);
+  }
+
+  fileName = fileName ?? 'file';
+  return {
+    fileName,
+    contentType: file.contentType ?? guessContentType(fileName),
+    data,
+  };
+}
+
+/**
+ * Guess a content type from a file name's extension
+ */
+export function guessContentType(fileName: string): string {
+  return CONTENT_TYPES[path.extname(fileName).toLowerCase()] ?? DEFAULT_CONTENT_TYPE;
+}
+
+/**
+ * Encode text fields and a single file part as multipart/form-data
+ */
+export function buildMultipartBody(
+  fields: Record<string, string | undefined>,
+  fileField: string,
+  upload: ResolvedUpload,
+): MultipartBody {
+  const boundary = `----OpenClawWebex${crypto.randomBytes(12).toString('hex')}`;
+  const parts: Buffer[] = [];
+
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      continue;
+    }
+    parts.push(Buffer.from(
+      `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="${name}"\r\n\r\n` +
+      `${value}\r\n`,
+    ));
+  }
+
+  parts.push(Buffer.from(
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="${fileField}"; filename="${escapeQuoted(upload.fileName)}"\r\n` +
+    `Content-Type: ${upload.contentType}\r\n\r\n`,
+  ));
+  parts.push(upload.data);
+  parts.push(Buffer.from(`\r\n--${boundary}--\r\n`));
+
+  return {
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    body: Buffer.concat(parts),
+  };
+}
+
+function escapeQuoted(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').replace(/"/g, '%22');
+}
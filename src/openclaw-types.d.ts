@@ -11,7 +11,7 @@ declare module "openclaw/plugin-sdk" {
     registerChannel(opts: { plugin: ChannelPlugin<unknown> }): void;
     registerGatewayMethod(name: string, handler: unknown): void;
     registerHttpHandler(opts: unknown): void;
-    registerCli(callback: unknown, opts?: { commands: string[] }): void;
+    registerCli(callback: (ctx: CliContext) => void, opts?: { commands: string[] }): void;
     registerService(service: unknown): void;
     logger: {
       info(msg: string): void;
@@ -23,6 +23,20 @@ declare module "openclaw/plugin-sdk" {
     runtime: PluginRuntime;
   }
 
+  /** Context handed to CLI registration callbacks */
+  export interface CliContext {
+    program: CliCommand;
+    config: unknown;
+  }
+
+  /** The parts of a commander Command plugins use to add subcommands */
+  export interface CliCommand {
+    command(nameAndArgs: string): CliCommand;
+    description(text: string): CliCommand;
+    option(flags: string, description?: string): CliCommand;
+    action(fn: (...args: unknown[]) => void | Promise<void>): CliCommand;
+  }
+
   /** Runtime helpers available to plugins */
   export interface PluginRuntime {
     http: {
@@ -80,7 +94,7 @@ declare module "openclaw/plugin-sdk" {
     reload?: { configPrefixes: string[] };
     configSchema?: unknown;
     onboarding?: unknown;
-    pairing?: unknown;
+    pairing?: ChannelPairingAdapter;
     config: ChannelConfigAdapter<TAccount>;
     security?: ChannelSecurityAdapter<TAccount>;
     groups?: unknown;
@@ -88,7 +102,7 @@ declare module "openclaw/plugin-sdk" {
     messaging?: ChannelMessagingAdapter;
     directory?: unknown;
     resolver?: unknown;
-    actions?: unknown;
+    actions?: ChannelMessageActionAdapter;
     setup?: unknown;
     outbound: ChannelOutboundAdapter<TAccount>;
     status?: ChannelStatusAdapter<TAccount>;
@@ -152,6 +166,12 @@ declare module "openclaw/plugin-sdk" {
     collectWarnings?(opts: { account: TAccount; cfg: unknown }): string[];
   }
 
+  export interface ChannelPairingAdapter {
+    idLabel: string;
+    normalizeAllowEntry?(entry: string): string;
+    notifyApproval?(opts: { cfg: unknown; id: string; runtime?: unknown }): Promise<void>;
+  }
+
   export interface ChannelThreadingAdapter {
     resolveReplyToMode?(opts: { cfg: unknown }): string;
     buildToolContext?(opts: {
@@ -172,6 +192,22 @@ declare module "openclaw/plugin-sdk" {
     };
   }
 
+  /** Message actions (edit, react, ...) the agent's message tool can run */
+  export interface ChannelMessageActionAdapter {
+    listActions?(opts: { cfg: unknown }): string[];
+    supportsAction?(opts: { action: string }): boolean;
+    handleAction?(ctx: {
+      channel: string;
+      action: string;
+      cfg: unknown;
+      params: Record<string, unknown>;
+      accountId?: string;
+    }): Promise<{
+      content: Array<{ type: "text"; text: string }>;
+      details?: unknown;
+    }>;
+  }
+
   export interface ChannelOutboundAdapter<TAccount = unknown> {
     deliveryMode: "direct" | "gateway" | "hybrid";
     chunker?(text: string, limit: number): string[];
@@ -229,6 +265,7 @@ declare module "openclaw/plugin-sdk" {
         accountId: string;
         running?: boolean;
         lastError?: string | null;
+        [key: string]: unknown;
       }>
     ): Array<{
       channel: string;
@@ -0,0 +1,239 @@
+/**
+ * Tests for PairingStore
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PairingStore, defaultAllowFromStorePath, defaultPairingStorePath } from './pairing';
+
+describe('PairingStore', () => {
+  const sender = {
+    accountId: 'default',
+    personId: 'person-123',
+    personEmail: 'Person@Example.com',
+    roomId: 'room-123',
+  };
+
+  let store: PairingStore;
+
+  beforeEach(() => {
+    store = new PairingStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('requestPairing', () => {
+    it('should create a pending request with an 8-character code', async () => {
+      const { request, created } = await store.requestPairing(sender);
+
+      expect(created).toBe(true);
+      expect(request.code).toMatch(/^[A-Z2-9]{8}$/);
+      expect(await store.listPending()).toEqual([request]);
+    });
+
+    it('should return the existing request for the same sender', async () => {
+      const first = await store.requestPairing(sender);
+      const second = await store.requestPairing(sender);
+
+      expect(second.created).toBe(false);
+      expect(second.request.code).toBe(first.request.code);
+    });
+
+    it('should issue a new code once the previous one has expired', async () => {
+      vi.useFakeTimers();
+      const shortStore = new PairingStore({ requestTtlMs: 1000 });
+      const first = await shortStore.requestPairing(sender);
+
+      vi.advanceTimersByTime(1001);
+      const second = await shortStore.requestPairing(sender);
+
+      expect(second.created).toBe(true);
+      expect(await shortStore.listPending()).toHaveLength(1);
+      expect(second.request).not.toBe(first.request);
+    });
+  });
+
+  describe('approve', () => {
+    it('should approve a sender by person ID', async () => {
+      const { request } = await store.requestPairing(sender);
+
+      const approved = await store.approve(request.code);
+
+      expect(approved).toMatchObject({ personId: 'person-123', accountId: 'default', roomId: 'room-123' });
+      expect(await store.isApproved('person-123')).toBe(true);
+      expect(await store.listApproved()).toEqual(['person-123']);
+      expect(await store.listPending()).toEqual([]);
+    });
+
+    it('should accept codes case-insensitively', async () => {
+      const { request } = await store.requestPairing(sender);
+
+      expect(await store.approve(` ${request.code.toLowerCase()} `)).not.toBeNull();
+    });
+
+    it('should return null for unknown codes', async () => {
+      expect(await store.approve('NOPE1234')).toBeNull();
+    });
+  });
+
+  describe('deny', () => {
+    it('should remove the request without approving', async () => {
+      const { request } = await store.requestPairing(sender);
+
+      const denied = await store.deny(request.code);
+
+      expect(denied?.personId).toBe('person-123');
+      expect(await store.isApproved('person-123')).toBe(false);
+      expect(await store.listPending()).toEqual([]);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke an approved entry', async () => {
+      const { request } = await store.requestPairing(sender);
+      await store.approve(request.code);
+
+      expect(await store.revoke('person-123')).toBe(true);
+      expect(await store.isApproved('person-123')).toBe(false);
+      expect(await store.revoke('person-123')).toBe(false);
+    });
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'webex-pairing-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    const files = () => ({
+      filePath: path.join(dir, 'nested', 'webex-pairing.json'),
+      allowFromPath: path.join(dir, 'nested', 'webex-allowFrom.json'),
+    });
+
+    it('should persist approvals across store instances', async () => {
+      const first = new PairingStore(files());
+      const { request } = await first.requestPairing(sender);
+      await first.approve(request.code);
+
+      const second = new PairingStore(files());
+
+      expect(await second.isApproved('person-123')).toBe(true);
+      expect(await second.listApproved()).toEqual(['person-123']);
+    });
+
+    it('should write requests and approvals in the OpenClaw pairing store format', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      const persisted = new PairingStore(files());
+      const { request } = await persisted.requestPairing(sender);
+
+      expect(JSON.parse(await fs.readFile(files().filePath, 'utf-8'))).toEqual({
+        version: 1,
+        requests: [
+          {
+            id: 'person-123',
+            code: request.code,
+            createdAt: '2024-01-01T00:00:00.000Z',
+            lastSeenAt: '2024-01-01T00:00:00.000Z',
+            meta: { accountId: 'default', roomId: 'room-123', email: 'Person@Example.com' },
+          },
+        ],
+      });
+
+      await persisted.approve(request.code);
+
+      expect(JSON.parse(await fs.readFile(files().filePath, 'utf-8'))).toEqual({ version: 1, requests: [] });
+      expect(JSON.parse(await fs.readFile(files().allowFromPath, 'utf-8'))).toEqual({
+        version: 1,
+        allowFrom: ['person-123'],
+      });
+    });
+
+    it('should see approvals made by `openclaw pairing approve`', async () => {
+      const gateway = new PairingStore(files());
+      const { request } = await gateway.requestPairing(sender);
+
+      // What the CLI leaves behind: the request removed, the ID allowed
+      await fs.writeFile(files().filePath, JSON.stringify({ version: 1, requests: [] }));
+      await fs.writeFile(files().allowFromPath, JSON.stringify({ version: 1, allowFrom: [request.personId] }));
+
+      expect(await gateway.isApproved('person-123')).toBe(true);
+      expect(await gateway.listPending()).toEqual([]);
+    });
+
+    it('should see and keep approvals made by another process', async () => {
+      const gateway = new PairingStore(files());
+      const cli = new PairingStore(files());
+      const { request } = await gateway.requestPairing(sender);
+      expect(await gateway.isApproved('person-123')).toBe(false);
+
+      await cli.approve(request.code);
+      await gateway.requestPairing({ ...sender, personId: 'person-456', personEmail: undefined });
+
+      expect(await gateway.isApproved('person-123')).toBe(true);
+      expect(await cli.listPending()).toEqual([expect.objectContaining({ personId: 'person-456' })]);
+    });
+
+    it('should not lose concurrent requests', async () => {
+      const concurrent = new PairingStore(files());
+
+      await Promise.all(['a', 'b', 'c'].map((personId) => concurrent.requestPairing({ ...sender, personId })));
+
+      expect(await new PairingStore(files()).listPending()).toHaveLength(3);
+    });
+
+    it('should start empty when the file does not exist', async () => {
+      const missing = new PairingStore(files());
+
+      expect(await missing.listPending()).toEqual([]);
+      expect(await missing.listApproved()).toEqual([]);
+    });
+  });
+});
+
+describe('defaultPairingStorePath', () => {
+  const originalStateDir = process.env.OPENCLAW_STATE_DIR;
+  const originalOAuthDir = process.env.OPENCLAW_OAUTH_DIR;
+
+  beforeEach(() => {
+    delete process.env.OPENCLAW_OAUTH_DIR;
+  });
+
+  afterEach(() => {
+    for (const [name, value] of [['OPENCLAW_STATE_DIR', originalStateDir], ['OPENCLAW_OAUTH_DIR', originalOAuthDir]] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it('should use OPENCLAW_STATE_DIR when set', () => {
+    process.env.OPENCLAW_STATE_DIR = '/tmp/openclaw-state';
+
+    expect(defaultPairingStorePath()).toBe(path.join('/tmp/openclaw-state', 'credentials', 'webex-pairing.json'));
+  });
+
+  it('should default to ~/.openclaw', () => {
+    delete process.env.OPENCLAW_STATE_DIR;
+
+    expect(defaultPairingStorePath()).toBe(path.join(os.homedir(), '.openclaw', 'credentials', 'webex-pairing.json'));
+  });
+
+  it('should follow OPENCLAW_OAUTH_DIR like OpenClaw does', () => {
+    process.env.OPENCLAW_OAUTH_DIR = '/tmp/openclaw-credentials';
+
+    expect(defaultPairingStorePath()).toBe(path.join('/tmp/openclaw-credentials', 'webex-pairing.json'));
+    expect(defaultAllowFromStorePath()).toBe(path.join('/tmp/openclaw-credentials', 'webex-allowFrom.json'));
+  });
+});
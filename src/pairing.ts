@@ -0,0 +1,269 @@
+/**
+ * Webex DM Pairing Store
+ *
+ * Tracks pending pairing requests from unknown direct-message senders and the
+ * senders that have been approved. Persisted, it uses OpenClaw's own pairing
+ * files and format, so `openclaw pairing list webex` shows the requests,
+ * `openclaw pairing approve webex <code>` approves them, and the plugin sees
+ * those approvals.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { normalizeAllowEntry } from './policy';
+import { JsonStateFile, statePath } from './state';
+
+/** Pairing requests expire after one hour */
+const DEFAULT_REQUEST_TTL_MS = 60 * 60 * 1000;
+
+/** Unambiguous characters for human-typed pairing codes */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export interface PairingRequest {
+  code: string;
+  accountId: string;
+  personId: string;
+  personEmail?: string;
+  roomId: string;
+  createdAt: number;
+}
+
+export interface PairingStoreOptions {
+  /** Pending requests file; in-memory only when omitted */
+  filePath?: string;
+
+  /** Approved senders file; in-memory only when omitted */
+  allowFromPath?: string;
+
+  /** How long a pairing code stays valid */
+  requestTtlMs?: number;
+}
+
+/** A pending request as OpenClaw stores it; the ID is the Webex person ID */
+interface StoredPairingRequest {
+  id: string;
+  code: string;
+  createdAt: string;
+  lastSeenAt?: string;
+  meta?: Record<string, string>;
+}
+
+interface PairingRequestsFile {
+  version: 1;
+  requests: StoredPairingRequest[];
+}
+
+interface AllowFromFile {
+  version: 1;
+  allowFrom: string[];
+}
+
+export class PairingStore {
+  private requestsFile?: JsonStateFile<Partial<PairingRequestsFile>>;
+  private allowFromFile?: JsonStateFile<Partial<AllowFromFile>>;
+  private requestTtlMs: number;
+  // Only used without files; files are re-read for every call instead
+  private requests: StoredPairingRequest[] = [];
+  private allowFrom: string[] = [];
+
+  constructor(options: PairingStoreOptions = {}) {
+    this.requestsFile = options.filePath
+      ? new JsonStateFile(options.filePath, { label: 'pairing store', indent: 2 })
+      : undefined;
+    this.allowFromFile = options.allowFromPath
+      ? new JsonStateFile(options.allowFromPath, { label: 'pairing allowFrom store', indent: 2 })
+      : undefined;
+    this.requestTtlMs = options.requestTtlMs ?? DEFAULT_REQUEST_TTL_MS;
+  }
+
+  /**
+   * Check whether a sender has been approved
+   */
+  async isApproved(personId: string, personEmail?: string): Promise<boolean> {
+    const approved = await this.listApproved();
+    return approved.includes(normalizeAllowEntry(personId)) ||
+      (personEmail !== undefined && approved.includes(normalizeAllowEntry(personEmail)));
+  }
+
+  /**
+   * Get or create the pending request for a sender.
+   * `created` is false when a still-valid code already existed.
+   */
+  async requestPairing(
+    request: Omit<PairingRequest, 'code' | 'createdAt'>,
+  ): Promise<{ request: PairingRequest; created: boolean }> {
+    return this.updateRequests((requests) => {
+      const now = new Date().toISOString();
+      const existing = requests.find((pending) => pending.id === request.personId);
+      if (existing) {
+        existing.lastSeenAt = now;
+        return { request: fromStored(existing), created: false };
+      }
+
+      const meta: Record<string, string> = { accountId: request.accountId, roomId: request.roomId };
+      if (request.personEmail) {
+        meta.email = request.personEmail;
+      }
+      const created: StoredPairingRequest = {
+        id: request.personId,
+        code: this.generateCode(new Set(requests.map((pending) => pending.code))),
+        createdAt: now,
+        lastSeenAt: now,
+        meta,
+      };
+      requests.push(created);
+      return { request: fromStored(created), created: true };
+    });
+  }
+
+  /**
+   * Approve a pending request by code, returning it or null if unknown/expired
+   */
+  async approve(code: string): Promise<PairingRequest | null> {
+    const request = await this.take(code);
+    if (!request) {
+      return null;
+    }
+
+    const entry = normalizeAllowEntry(request.personId);
+    await this.updateAllowFrom((allowFrom) => {
+      if (!allowFrom.includes(entry)) {
+        allowFrom.push(entry);
+      }
+    });
+    return request;
+  }
+
+  /**
+   * Remove a pending request by code without approving it, returning it or
+   * null if unknown/expired
+   */
+  async deny(code: string): Promise<PairingRequest | null> {
+    return this.take(code);
+  }
+
+  /**
+   * Revoke a previously approved sender
+   */
+  async revoke(entry: string): Promise<boolean> {
+    return this.updateAllowFrom((allowFrom) => {
+      const index = allowFrom.indexOf(normalizeAllowEntry(entry));
+      if (index === -1) {
+        return false;
+      }
+      allowFrom.splice(index, 1);
+      return true;
+    });
+  }
+
+  /**
+   * List pending, unexpired requests, optionally for one account
+   */
+  async listPending(accountId?: string): Promise<PairingRequest[]> {
+    const requests = this.requestsFile ? (await this.requestsFile.read())?.requests ?? [] : this.requests;
+    return requests
+      .filter((request) => !this.isExpired(request))
+      .map(fromStored)
+      .filter((request) => !accountId || request.accountId === accountId);
+  }
+
+  /**
+   * List approved sender entries, normalized
+   */
+  async listApproved(): Promise<string[]> {
+    const allowFrom = this.allowFromFile ? (await this.allowFromFile.read())?.allowFrom ?? [] : this.allowFrom;
+    return allowFrom.map((entry) => normalizeAllowEntry(String(entry))).filter(Boolean);
+  }
+
+  private generateCode(taken: Set<string>): string {
+    for (;;) {
+      let code = '';
+      for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+      }
+      if (!taken.has(code)) {
+        return code;
+      }
+    }
+  }
+
+  /**
+   * Remove a pending request by code, returning it
+   */
+  private async take(code: string): Promise<PairingRequest | null> {
+    const normalizedCode = code.trim().toUpperCase();
+    return this.updateRequests((requests) => {
+      const index = requests.findIndex((request) => String(request.code).toUpperCase() === normalizedCode);
+      return index === -1 ? null : fromStored(requests.splice(index, 1)[0]);
+    });
+  }
+
+  private isExpired(request: StoredPairingRequest): boolean {
+    const createdAt = Date.parse(request.createdAt);
+    return !Number.isFinite(createdAt) || createdAt <= Date.now() - this.requestTtlMs;
+  }
+
+  /**
+   * Change the pending requests, with expired ones already pruned. With a
+   * file, the change is made to what is on disk and written back right
+   * away, so requests approved by the CLI in the meantime stay approved.
+   */
+  private async updateRequests<R>(change: (requests: StoredPairingRequest[]) => R): Promise<R> {
+    if (!this.requestsFile) {
+      this.requests = this.requests.filter((request) => !this.isExpired(request));
+      return change(this.requests);
+    }
+    return this.requestsFile.update((current) => {
+      const requests = (current?.requests ?? []).filter((request) => !this.isExpired(request));
+      const result = change(requests);
+      return { value: { ...current, version: 1, requests }, result };
+    });
+  }
+
+  private async updateAllowFrom<R>(change: (allowFrom: string[]) => R): Promise<R> {
+    if (!this.allowFromFile) {
+      return change(this.allowFrom);
+    }
+    return this.allowFromFile.update((current) => {
+      const allowFrom = [...(current?.allowFrom ?? [])];
+      const result = change(allowFrom);
+      return { value: { ...current, version: 1, allowFrom }, result };
+    });
+  }
+}
+
+function fromStored(request: StoredPairingRequest): PairingRequest {
+  return {
+    code: request.code,
+    accountId: request.meta?.accountId ?? '',
+    personId: request.id,
+    personEmail: request.meta?.email,
+    roomId: request.meta?.roomId ?? '',
+    createdAt: Date.parse(request.createdAt),
+  };
+}
+
+/**
+ * OpenClaw's credentials dir (`OPENCLAW_OAUTH_DIR`, or `credentials` under
+ * the state dir), where its pairing files live
+ */
+function credentialsPath(fileName: string): string {
+  const override = process.env.OPENCLAW_OAUTH_DIR?.trim();
+  return override ? path.join(override, fileName) : statePath('credentials', fileName);
+}
+
+/**
+ * Default location of pending pairing requests, shared with `openclaw pairing`
+ */
+export function defaultPairingStorePath(): string {
+  return credentialsPath('webex-pairing.json');
+}
+
+/**
+ * Default location of approved senders, which `openclaw pairing approve`
+ * adds to
+ */
+export function defaultAllowFromStorePath(): string {
+  return credentialsPath('webex-allowFrom.json');
+}
@@ -0,0 +1,136 @@
+/**
+ * Tests for PeopleLookup
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PeopleLookup } from './people';
+import type { WebexChannelConfig, WebexPerson } from './types';
+
+// Mock node-fetch
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+import fetch from 'node-fetch';
+const mockFetch = fetch as unknown as ReturnType<typeof vi.fn>;
+
+// Helper to create mock Response
+function createMockResponse(data: unknown, ok = true, status = 200, statusText = 'OK') {
+  return {
+    ok,
+    status,
+    statusText,
+    json: vi.fn().mockResolvedValue(data),
+    text: vi.fn().mockResolvedValue(JSON.stringify(data)),
+  };
+}
+
+describe('PeopleLookup', () => {
+  const config: WebexChannelConfig = {
+    token: 'test-token',
+    webhookUrl: 'https://example.com/webhook',
+    dmPolicy: 'allow',
+  };
+
+  const person: WebexPerson = {
+    id: 'person-123',
+    emails: ['person@example.com'],
+    displayName: 'Pat Example',
+    orgId: 'org-123',
+    created: '2024-01-01T00:00:00.000Z',
+    type: 'person',
+  };
+
+  let people: PeopleLookup;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    people = new PeopleLookup(config);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fetch a person by ID', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse(person));
+
+    expect(await people.get('person-123')).toEqual(person);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://webexapis.com/v1/people/person-123',
+      expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({ Authorization: 'Bearer test-token' }),
+      })
+    );
+  });
+
+  it('should serve repeat lookups from the cache', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse(person));
+
+    await people.get('person-123');
+    await people.get('person-123');
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one request between concurrent lookups', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse(person));
+
+    const [first, second] = await Promise.all([people.get('person-123'), people.get('person-123')]);
+
+    expect(first).toEqual(second);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refetch once the entry has expired', async () => {
+    vi.useFakeTimers();
+    const shortLived = new PeopleLookup(config, { ttlMs: 1000 });
+    mockFetch.mockResolvedValue(createMockResponse(person));
+
+    await shortLived.get('person-123');
+    vi.advanceTimersByTime(1001);
+    await shortLived.get('person-123');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const small = new PeopleLookup(config, { maxEntries: 2 });
+    mockFetch.mockImplementation(async (url: string) =>
+      createMockResponse({ ...person, id: url.split('/').pop() })
+    );
+
+    await small.get('a');
+    await small.get('b');
+    await small.get('a');
+    await small.get('c');
+    mockFetch.mockClear();
+
+    await small.get('a');
+    expect(mockFetch).not.toHaveBeenCalled();
+    await small.get('b');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return null and not cache failed lookups', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({}, false, 404, 'Not Found'));
+    mockFetch.mockResolvedValueOnce(createMockResponse(person));
+
+    expect(await people.get('person-123')).toBeNull();
+    expect(await people.get('person-123')).toEqual(person);
+  });
+
+  it('should return null on network errors', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('ECONNRESET'));
+
+    expect(await people.get('person-123')).toBeNull();
+  });
+
+  it('should use seeded profiles without fetching', async () => {
+    people.remember(person);
+
+    expect(await people.get('person-123')).toEqual(person);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Webex People Lookup
+ *
+ * Resolves person IDs to profiles via /people/{id}, caching results so a busy
+ * space does not cost one API call per message.
+ */
+
+import fetch from 'node-fetch';
+import { LruCache } from './cache';
+import type { WebexChannelConfig, WebexPerson } from './types';
+
+const DEFAULT_API_BASE_URL = 'https://webexapis.com/v1';
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+export interface PeopleLookupOptions {
+  /** Maximum number of cached profiles */
+  maxEntries?: number;
+
+  /** How long a cached profile stays valid */
+  ttlMs?: number;
+}
+
+export class PeopleLookup {
+  private config: WebexChannelConfig;
+  private apiBaseUrl: string;
+  private cache: LruCache<string, WebexPerson>;
+  private inflight = new Map<string, Promise<WebexPerson | null>>();
+
+  constructor(config: WebexChannelConfig, options: PeopleLookupOptions = {}) {
+    this.config = config;
+    this.apiBaseUrl = config.apiBaseUrl || DEFAULT_API_BASE_URL;
+    this.cache = new LruCache({
+      maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES,
+      ttlMs: options.ttlMs ?? DEFAULT_TTL_MS,
+    });
+  }
+
+  /**
+   * Get a person's profile, or null when it cannot be fetched.
+   * Lookup failures are logged rather than thrown: a missing display name
+   * should never cost the message itself.
+   */
+  async get(personId: string): Promise<WebexPerson | null> {
+    const cached = this.cache.get(personId);
+    if (cached) {
+      return cached;
+    }
+
+    // Concurrent lookups for the same person share one request
+    let pending = this.inflight.get(personId);
+    if (!pending) {
+      pending = this.fetchPerson(personId).finally(() => this.inflight.delete(personId));
+      this.inflight.set(personId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Seed the cache with a profile obtained elsewhere (e.g. /people/me)
+   */
+  remember(person: WebexPerson): void {
+    this.cache.set(person.id, person);
+  }
+
+  /**
+   * Drop a cached profile so the next lookup refetches it
+   */
+  forget(personId: string): void {
+    this.cache.delete(personId);
+  }
+
+  private async fetchPerson(personId: string): Promise<WebexPerson | null> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/people/${encodeURIComponent(personId)}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${this.config.token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        console.warn('Failed to look up person:', personId, response.status, response.statusText);
+        return null;
+      }
+
+      const person = await response.json() as WebexPerson;
+      this.cache.set(personId, person);
+      return person;
+    } catch (error) {
+      console.warn('Failed to look up person:', personId, error);
+      return null;
+    }
+  }
+}
@@ -7,6 +7,7 @@
 
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import { webexPlugin, createWebhookHandler, setPluginRuntime } from "./channel-plugin";
+import { registerWebexCli } from "./cli";
 
 /**
  * OpenClaw plugin registration function.
@@ -20,6 +21,7 @@ export default function register(api: OpenClawPluginApi): void {
   
   api.registerChannel({ plugin: webexPlugin });
   api.registerHttpHandler(createWebhookHandler());
+  api.registerCli(({ program, config }) => registerWebexCli(program, config), { commands: ["webex"] });
 }
 
 // Export the plugin ID for reference
@@ -0,0 +1,66 @@
+/**
+ * Tests for the DM policy engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeDmPolicy, normalizeAllowEntry, matchesAllowFrom } from './policy';
+
+describe('normalizeDmPolicy', () => {
+  it('should accept both allowlist spellings', () => {
+    expect(normalizeDmPolicy('allowlist')).toBe('allowlist');
+    expect(normalizeDmPolicy('allowlisted')).toBe('allowlist');
+  });
+
+  it('should default to allow when unset', () => {
+    expect(normalizeDmPolicy(undefined)).toBe('allow');
+  });
+
+  it('should pass through known policies', () => {
+    expect(normalizeDmPolicy('allow')).toBe('allow');
+    expect(normalizeDmPolicy('deny')).toBe('deny');
+    expect(normalizeDmPolicy('pairing')).toBe('pairing');
+  });
+
+  it('should treat unknown values as deny', () => {
+    expect(normalizeDmPolicy('whitelist')).toBe('deny');
+  });
+});
+
+describe('normalizeAllowEntry', () => {
+  it('should trim and lowercase entries', () => {
+    expect(normalizeAllowEntry('  User@Example.COM ')).toBe('user@example.com');
+  });
+});
+
+describe('matchesAllowFrom', () => {
+  it('should match person IDs', () => {
+    expect(matchesAllowFrom(['person-123'], 'person-123')).toBe(true);
+  });
+
+  it('should match emails case-insensitively', () => {
+    expect(matchesAllowFrom(['User@Example.com'], 'person-123', 'user@EXAMPLE.com')).toBe(true);
+  });
+
+  it('should match wildcard domains', () => {
+    expect(matchesAllowFrom(['*@example.com'], 'person-123', 'alice@Example.com')).toBe(true);
+  });
+
+  it('should not match other domains or lookalike suffixes', () => {
+    expect(matchesAllowFrom(['*@example.com'], 'person-123', 'alice@other.com')).toBe(false);
+    expect(matchesAllowFrom(['*@example.com'], 'person-123', 'alice@notexample.com')).toBe(false);
+  });
+
+  it('should not match wildcard domains without an email', () => {
+    expect(matchesAllowFrom(['*@example.com'], 'person-123')).toBe(false);
+  });
+
+  it('should match everyone with a bare wildcard', () => {
+    expect(matchesAllowFrom(['*'], 'person-123')).toBe(true);
+  });
+
+  it('should not match empty or missing lists', () => {
+    expect(matchesAllowFrom([], 'person-123', 'user@example.com')).toBe(false);
+    expect(matchesAllowFrom(undefined, 'person-123')).toBe(false);
+    expect(matchesAllowFrom(['  '], 'person-123')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Webex DM Policy Engine
+ *
+ * Shared by the webhook handler and the OpenClaw security adapter so both
+ * agree on policy spelling and how allowFrom entries match a sender.
+ */
+
+import type { DmPolicy } from './types';
+
+/** Canonical DM policy, as understood by OpenClaw */
+export type ResolvedDmPolicy = 'allow' | 'deny' | 'allowlist' | 'pairing';
+
+/**
+ * Normalize a configured DM policy. 'allowlisted' is accepted as a legacy
+ * spelling of 'allowlist'; unknown values resolve to 'deny'.
+ */
+export function normalizeDmPolicy(raw: DmPolicy | string | undefined): ResolvedDmPolicy {
+  switch (raw?.trim().toLowerCase()) {
+    case undefined:
+    case '':
+    case 'allow':
+      return 'allow';
+    case 'allowlist':
+    case 'allowlisted':
+      return 'allowlist';
+    case 'pairing':
+      return 'pairing';
+    default:
+      return 'deny';
+  }
+}
+
+/**
+ * Normalize an allowFrom entry for comparison
+ */
+export function normalizeAllowEntry(raw: string): string {
+  return raw.trim().toLowerCase();
+}
+
+/**
+ * Check whether a sender matches any allowFrom entry.
+ *
+ * Entries are person IDs or emails, compared case-insensitively. `*@domain`
+ * matches any email at that domain and a bare `*` matches everyone.
+ */
+export function matchesAllowFrom(
+  allowFrom: string[] | undefined,
+  personId: string,
+  personEmail?: string,
+): boolean {
+  const id = normalizeAllowEntry(personId);
+  const email = personEmail ? normalizeAllowEntry(personEmail) : undefined;
+
+  return (allowFrom ?? []).some((raw) => {
+    const entry = normalizeAllowEntry(raw);
+    if (!entry) {
+      return false;
+    }
+    if (entry === '*') {
+      return true;
+    }
+    if (entry.startsWith('*@')) {
+      return email !== undefined && email.endsWith(entry.slice(1));
+    }
+    return entry === id || entry === email;
+  });
+}
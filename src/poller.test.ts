@@ -0,0 +1,240 @@
+/**
+ * Tests for WebexPoller
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WebexPoller, messageToWebhookPayload } from './poller';
+import type { WebexChannelConfig, WebexMessage, WebexRoom } from './types';
+
+// Mock node-fetch
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+import fetch from 'node-fetch';
+const mockFetch = fetch as unknown as ReturnType<typeof vi.fn>;
+
+// Helper to create mock Response
+function createMockResponse(data: unknown, ok = true, status = 200, statusText = 'OK') {
+  return {
+    ok,
+    status,
+    statusText,
+    json: vi.fn().mockResolvedValue(data),
+  };
+}
+
+const config: WebexChannelConfig = {
+  token: 'test-token',
+  webhookUrl: '',
+  transport: 'polling',
+  dmPolicy: 'allow',
+};
+
+/** An ISO timestamp this many ms from now */
+const later = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+const room = (id: string, type: WebexRoom['type'], lastActivity: string): WebexRoom => ({
+  id,
+  title: id,
+  type,
+  isLocked: false,
+  lastActivity,
+  creatorId: 'person-123',
+  created: '2024-01-01T00:00:00.000Z',
+});
+
+const message = (id: string, roomId: string, created: string): WebexMessage => ({
+  id,
+  roomId,
+  roomType: 'direct',
+  text: id,
+  personId: 'person-123',
+  personEmail: 'person@example.com',
+  created,
+});
+
+/**
+ * Serve /rooms and /messages from fixtures; messages are returned newest
+ * first, as the API does
+ */
+function serve(rooms: WebexRoom[], messages: Record<string, WebexMessage[]>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const parsed = new URL(url);
+    if (parsed.pathname.endsWith('/rooms')) {
+      return createMockResponse({ items: rooms });
+    }
+    const roomId = parsed.searchParams.get('roomId') ?? '';
+    return createMockResponse({ items: [...(messages[roomId] ?? [])].reverse() });
+  });
+}
+
+describe('WebexPoller', () => {
+  let delivered: WebexMessage[];
+  let onMessage: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    delivered = [];
+    onMessage = vi.fn(async (item: WebexMessage) => {
+      delivered.push(item);
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only mark the starting point on the first poll', async () => {
+    const poller = new WebexPoller(config, { onMessage });
+
+    await expect(poller.pollOnce()).resolves.toBe(0);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should deliver new messages oldest first', async () => {
+    const poller = new WebexPoller(config, { onMessage });
+    await poller.pollOnce();
+
+    serve([room('room-a', 'direct', later(2000))], {
+      'room-a': [
+        message('old', 'room-a', '2024-01-01T00:00:00.000Z'),
+        message('first', 'room-a', later(1000)),
+        message('second', 'room-a', later(2000)),
+      ],
+    });
+
+    await expect(poller.pollOnce()).resolves.toBe(2);
+    expect(delivered.map((item) => item.id)).toEqual(['first', 'second']);
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining('/rooms?sortBy=lastactivity&max=50'),
+      expect.objectContaining({ headers: expect.objectContaining({ 'Authorization': 'Bearer test-token' }) })
+    );
+  });
+
+  it('should only ask for mentions in group rooms', async () => {
+    const poller = new WebexPoller(config, { onMessage });
+    await poller.pollOnce();
+    serve([room('room-g', 'group', later(1000)), room('room-d', 'direct', later(1000))], {});
+
+    await poller.pollOnce();
+
+    const urls = mockFetch.mock.calls.map(([url]) => url as string);
+    expect(urls.find((url) => url.includes('roomId=room-g'))).toContain('mentionedPeople=me');
+    expect(urls.find((url) => url.includes('roomId=room-d'))).not.toContain('mentionedPeople');
+  });
+
+  it('should not deliver a message twice', async () => {
+    const poller = new WebexPoller(config, { onMessage });
+    await poller.pollOnce();
+    const activity = later(1000);
+    serve([room('room-a', 'direct', activity)], { 'room-a': [message('first', 'room-a', activity)] });
+
+    await poller.pollOnce();
+    await poller.pollOnce();
+
+    expect(delivered.map((item) => item.id)).toEqual(['first']);
+    // The quiet room is skipped without listing its messages
+    expect(mockFetch.mock.calls.filter(([url]) => (url as string).includes('/messages'))).toHaveLength(1);
+  });
+
+  it('should retry from a message that was not accepted', async () => {
+    const poller = new WebexPoller(config, { onMessage, log: { warn: vi.fn() } });
+    await poller.pollOnce();
+    serve([room('room-a', 'direct', later(2000))], {
+      'room-a': [message('first', 'room-a', later(1000)), message('second', 'room-a', later(2000))],
+    });
+    onMessage.mockImplementationOnce(async (item: WebexMessage) => {
+      delivered.push(item);
+    }).mockRejectedValueOnce(new Error('work queue full'));
+
+    await expect(poller.pollOnce()).resolves.toBe(1);
+    await poller.pollOnce();
+
+    expect(delivered.map((item) => item.id)).toEqual(['first', 'second']);
+  });
+
+  it('should resume from persisted cursors', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'webex-poller-'));
+    const cursorPath = path.join(dir, 'poll.json');
+    try {
+      const first = new WebexPoller(config, { onMessage, cursorPath });
+      await first.pollOnce();
+      const activity = later(1000);
+      serve([room('room-a', 'direct', activity)], { 'room-a': [message('first', 'room-a', activity)] });
+      await first.pollOnce();
+
+      const second = new WebexPoller(config, { onMessage, cursorPath });
+      await expect(second.pollOnce()).resolves.toBe(0);
+
+      expect(delivered.map((item) => item.id)).toEqual(['first']);
+      expect(JSON.parse(await fs.readFile(cursorPath, 'utf-8')).rooms).toEqual({ 'room-a': activity });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should back off while idle and speed up when messages arrive', async () => {
+    vi.useFakeTimers();
+    const poller = new WebexPoller(config, { onMessage, minIntervalMs: 1000, maxIntervalMs: 4000 });
+    serve([], {});
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(poller.getIntervalMs()).toBe(2000);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(poller.getIntervalMs()).toBe(4000);
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(poller.getIntervalMs()).toBe(4000);
+
+    const activity = later(1000);
+    serve([room('room-a', 'direct', activity)], { 'room-a': [message('first', 'room-a', activity)] });
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(poller.getIntervalMs()).toBe(1000);
+
+    poller.stop();
+  });
+
+  it('should back off after a failed poll', async () => {
+    vi.useFakeTimers();
+    const warn = vi.fn();
+    const poller = new WebexPoller(config, { onMessage, minIntervalMs: 1000, maxIntervalMs: 8000, log: { warn } });
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(0);
+    mockFetch.mockResolvedValue(createMockResponse({}, false, 429, 'Too Many Requests'));
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(warn).toHaveBeenCalledWith('Webex poll failed: Failed to list rooms: 429 Too Many Requests');
+    expect(poller.getIntervalMs()).toBe(4000);
+    poller.stop();
+  });
+});
+
+describe('messageToWebhookPayload', () => {
+  it('should describe the message as a messages/created webhook', () => {
+    const payload = messageToWebhookPayload({
+      ...message('message-1', 'room-a', '2024-01-01T00:00:00.000Z'),
+      roomType: 'group',
+      mentionedPeople: ['bot-123'],
+    });
+
+    expect(payload).toMatchObject({
+      resource: 'messages',
+      event: 'created',
+      data: {
+        id: 'message-1',
+        roomId: 'room-a',
+        roomType: 'group',
+        personId: 'person-123',
+        mentionedPeople: ['bot-123'],
+      },
+    });
+  });
+});
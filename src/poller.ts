@@ -0,0 +1,295 @@
+/**
+ * Webex Polling Transport
+ *
+ * For locked-down networks that allow neither inbound webhooks nor a
+ * websocket. The poller lists the bot's rooms by last activity and fetches
+ * the messages posted since a per-room cursor. Cursors are optionally
+ * persisted, so a restart resumes where it stopped instead of replaying
+ * history. The interval shortens while rooms are busy and backs off while
+ * they are quiet.
+ */
+
+import fetch from 'node-fetch';
+import { JsonStateFile, statePath } from './state';
+import type {
+  WebexChannelConfig,
+  WebexMessage,
+  WebexRoom,
+  WebexWebhookPayload,
+  PaginatedResponse,
+} from './types';
+
+const DEFAULT_API_BASE_URL = 'https://webexapis.com/v1';
+
+/** Poll every five seconds while messages keep arriving */
+export const DEFAULT_POLL_MIN_INTERVAL_MS = 5000;
+
+/** Back off to once a minute while every room is quiet */
+export const DEFAULT_POLL_MAX_INTERVAL_MS = 60_000;
+
+const DEFAULT_MAX_ROOMS = 50;
+const MESSAGES_PER_ROOM = 50;
+
+export interface WebexPollerOptions {
+  /**
+   * Receives each new message, oldest first; a rejection stops that room
+   * until the next poll. The poll waits for it, so it should resolve once
+   * the message is accepted rather than once it is processed.
+   */
+  onMessage: (message: WebexMessage) => Promise<void>;
+
+  /** JSON file to persist room cursors to; in-memory only when omitted */
+  cursorPath?: string;
+
+  /** Shortest interval between polls, in ms */
+  minIntervalMs?: number;
+
+  /** Longest interval between polls, in ms */
+  maxIntervalMs?: number;
+
+  /** Most recently active rooms checked per poll */
+  maxRooms?: number;
+
+  log?: {
+    warn?(msg: string): void;
+  };
+}
+
+interface CursorFile {
+  /** When polling first started; messages before it are never delivered */
+  seededAt?: string;
+  /** Creation time of the newest message handled, per room */
+  rooms?: Record<string, string>;
+}
+
+export class WebexPoller {
+  private config: WebexChannelConfig;
+  private options: WebexPollerOptions;
+  private apiBaseUrl: string;
+  private minIntervalMs: number;
+  private maxIntervalMs: number;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<number> | null = null;
+  private cursors: CursorFile = {};
+  private cursorFile?: JsonStateFile<CursorFile>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(config: WebexChannelConfig, options: WebexPollerOptions) {
+    this.config = config;
+    this.options = options;
+    this.apiBaseUrl = config.apiBaseUrl || DEFAULT_API_BASE_URL;
+    this.cursorFile = options.cursorPath
+      ? new JsonStateFile(options.cursorPath, { label: 'poll cursors' })
+      : undefined;
+    this.minIntervalMs = Math.max(1, options.minIntervalMs ?? DEFAULT_POLL_MIN_INTERVAL_MS);
+    this.maxIntervalMs = Math.max(this.minIntervalMs, options.maxIntervalMs ?? DEFAULT_POLL_MAX_INTERVAL_MS);
+    this.intervalMs = this.minIntervalMs;
+  }
+
+  /**
+   * Poll now and then keep polling on the adaptive interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.schedule(0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Current gap between polls, in ms
+   */
+  getIntervalMs(): number {
+    return this.intervalMs;
+  }
+
+  /**
+   * Poll once and return the number of messages delivered. Concurrent calls
+   * share one poll.
+   */
+  pollOnce(): Promise<number> {
+    if (!this.running) {
+      this.running = this.poll().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        const delivered = await this.pollOnce();
+        // Stay quick while a conversation is active, slow down when idle
+        this.intervalMs = delivered > 0
+          ? this.minIntervalMs
+          : Math.min(this.intervalMs * 2, this.maxIntervalMs);
+      } catch (error) {
+        this.options.log?.warn?.(`Webex poll failed: ${error instanceof Error ? error.message : error}`);
+        this.intervalMs = Math.min(this.intervalMs * 2, this.maxIntervalMs);
+      }
+      if (this.timer) {
+        this.schedule(this.intervalMs);
+      }
+    }, delayMs);
+  }
+
+  private async poll(): Promise<number> {
+    await this.load();
+
+    // The first poll only marks the starting point, so a new deployment
+    // does not answer the bot's entire history
+    if (!this.cursors.seededAt) {
+      this.cursors.seededAt = new Date().toISOString();
+      await this.save();
+      return 0;
+    }
+
+    const rooms = await this.listRooms();
+    let delivered = 0;
+
+    for (const room of rooms) {
+      const cursor = this.cursors.rooms?.[room.id] ?? this.cursors.seededAt;
+      if (Date.parse(room.lastActivity) <= Date.parse(cursor)) {
+        continue;
+      }
+
+      const messages = await this.listMessages(room);
+      const fresh = messages
+        .filter((message) => Date.parse(message.created) > Date.parse(cursor))
+        .reverse();
+      if (fresh.length === MESSAGES_PER_ROOM) {
+        this.options.log?.warn?.(`more than ${MESSAGES_PER_ROOM} new messages in room ${room.id}, older ones skipped`);
+      }
+
+      let newest = cursor;
+      try {
+        for (const message of fresh) {
+          await this.options.onMessage(message);
+          newest = message.created;
+          delivered++;
+        }
+        // Activity the bot cannot see (e.g. unmentioned group messages)
+        // should not make the room look busy next time
+        if (Date.parse(room.lastActivity) > Date.parse(newest)) {
+          newest = room.lastActivity;
+        }
+      } catch (error) {
+        this.options.log?.warn?.(
+          `stopped polling room ${room.id}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+
+      this.cursors.rooms = { ...this.cursors.rooms, [room.id]: newest };
+    }
+
+    await this.save();
+    return delivered;
+  }
+
+  private async listRooms(): Promise<WebexRoom[]> {
+    const max = this.options.maxRooms ?? DEFAULT_MAX_ROOMS;
+    const response = await fetch(`${this.apiBaseUrl}/rooms?sortBy=lastactivity&max=${max}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.config.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list rooms: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as PaginatedResponse<WebexRoom>;
+    return data.items;
+  }
+
+  /**
+   * Newest messages in a room, newest first. In group rooms Webex only lets
+   * bots list the messages that mention them.
+   */
+  private async listMessages(room: WebexRoom): Promise<WebexMessage[]> {
+    const params = new URLSearchParams({ roomId: room.id, max: String(MESSAGES_PER_ROOM) });
+    if (room.type === 'group') {
+      params.set('mentionedPeople', 'me');
+    }
+
+    const response = await fetch(`${this.apiBaseUrl}/messages?${params}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.config.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list messages: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as PaginatedResponse<WebexMessage>;
+    return data.items.map((message) => ({ ...message, roomType: message.roomType ?? room.type }));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+    }
+    return this.loaded;
+  }
+
+  private async readFile(): Promise<void> {
+    this.cursors = (await this.cursorFile?.read()) ?? {};
+  }
+
+  private async save(): Promise<void> {
+    await this.cursorFile?.write(this.cursors);
+  }
+}
+
+/**
+ * Describe a polled message as the messages/created webhook Webex would
+ * have sent for it
+ */
+export function messageToWebhookPayload(message: WebexMessage): WebexWebhookPayload {
+  return {
+    id: 'polling',
+    name: 'OpenClaw Poller',
+    targetUrl: '',
+    resource: 'messages',
+    event: 'created',
+    orgId: '',
+    createdBy: '',
+    appId: '',
+    ownedBy: 'creator',
+    status: 'active',
+    created: message.created,
+    actorId: message.personId,
+    data: {
+      id: message.id,
+      roomId: message.roomId,
+      roomType: message.roomType,
+      personId: message.personId,
+      personEmail: message.personEmail,
+      created: message.created,
+      mentionedPeople: message.mentionedPeople,
+      mentionedGroups: message.mentionedGroups,
+      files: message.files,
+    },
+  };
+}
+
+/**
+ * Default location of persisted poll cursors
+ */
+export function defaultPollCursorPath(accountId: string): string {
+  return statePath('webex', `poll-${accountId}.json`);
+}
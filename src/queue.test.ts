@@ -0,0 +1,112 @@
+/**
+ * Tests for KeyedWorkQueue
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { KeyedWorkQueue } from './queue';
+
+/** A task that runs until released */
+function deferredTask(log: string[], name: string) {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => { release = resolve; });
+  const run = vi.fn(async () => {
+    log.push(`start ${name}`);
+    await released;
+    log.push(`end ${name}`);
+  });
+  return { run, release };
+}
+
+describe('KeyedWorkQueue', () => {
+  it('should run tasks for the same key in order, one at a time', async () => {
+    const queue = new KeyedWorkQueue({ concurrency: 4 });
+    const log: string[] = [];
+    const first = deferredTask(log, 'a1');
+    const second = deferredTask(log, 'a2');
+
+    queue.enqueue('room-a', first.run);
+    queue.enqueue('room-a', second.run);
+    await Promise.resolve();
+
+    expect(first.run).toHaveBeenCalled();
+    expect(second.run).not.toHaveBeenCalled();
+
+    first.release();
+    second.release();
+    await queue.onIdle();
+
+    expect(log).toEqual(['start a1', 'end a1', 'start a2', 'end a2']);
+  });
+
+  it('should run different keys in parallel up to the concurrency limit', async () => {
+    const queue = new KeyedWorkQueue({ concurrency: 2 });
+    const log: string[] = [];
+    const tasks = ['a', 'b', 'c'].map((name) => deferredTask(log, name));
+
+    tasks.forEach((task, index) => queue.enqueue(`room-${index}`, task.run));
+    await Promise.resolve();
+
+    expect(log).toEqual(['start a', 'start b']);
+    expect(queue.stats()).toMatchObject({ running: 2, pending: 1 });
+
+    tasks[0].release();
+    await vi.waitFor(() => expect(log).toContain('start c'));
+
+    tasks.forEach((task) => task.release());
+    await queue.onIdle();
+  });
+
+  it('should let other keys overtake a busy key', async () => {
+    const queue = new KeyedWorkQueue({ concurrency: 2 });
+    const log: string[] = [];
+    const a1 = deferredTask(log, 'a1');
+    const a2 = deferredTask(log, 'a2');
+    const b1 = deferredTask(log, 'b1');
+
+    queue.enqueue('room-a', a1.run);
+    queue.enqueue('room-a', a2.run);
+    queue.enqueue('room-b', b1.run);
+    await Promise.resolve();
+
+    expect(log).toEqual(['start a1', 'start b1']);
+
+    [a1, a2, b1].forEach((task) => task.release());
+    await queue.onIdle();
+  });
+
+  it('should refuse work beyond maxPending', async () => {
+    const queue = new KeyedWorkQueue({ concurrency: 1, maxPending: 1 });
+    const log: string[] = [];
+    const running = deferredTask(log, 'running');
+
+    expect(queue.enqueue('room-a', running.run)).toBe(true);
+    expect(queue.isFull()).toBe(false);
+    expect(queue.enqueue('room-a', async () => {})).toBe(true);
+    expect(queue.isFull()).toBe(true);
+    expect(queue.enqueue('room-a', async () => {})).toBe(false);
+    expect(queue.stats()).toMatchObject({ pending: 1, running: 1, rejected: 1 });
+
+    running.release();
+    await queue.onIdle();
+  });
+
+  it('should report failures and keep going', async () => {
+    const onError = vi.fn();
+    const queue = new KeyedWorkQueue({ onError });
+    const after = vi.fn(async () => {});
+
+    queue.enqueue('room-a', async () => {
+      throw new Error('boom');
+    });
+    queue.enqueue('room-a', after);
+    await queue.onIdle();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }), 'room-a');
+    expect(after).toHaveBeenCalled();
+    expect(queue.stats()).toMatchObject({ processed: 2, failed: 1, pending: 0, running: 0 });
+  });
+
+  it('should resolve onIdle immediately when empty', async () => {
+    await expect(new KeyedWorkQueue().onIdle()).resolves.toBeUndefined();
+  });
+});
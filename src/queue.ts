@@ -0,0 +1,146 @@
+/**
+ * Keyed Work Queue
+ *
+ * Bounded in-process queue for webhook processing. The HTTP handler enqueues
+ * work and answers Webex straight away; workers run the tasks afterwards.
+ * Tasks sharing a key (a room ID) run one at a time in arrival order, while
+ * different keys run in parallel up to the concurrency limit.
+ */
+
+export const DEFAULT_QUEUE_CONCURRENCY = 4;
+export const DEFAULT_QUEUE_MAX_PENDING = 1000;
+
+export interface WorkQueueOptions {
+  /** Tasks run in parallel across different keys */
+  concurrency?: number;
+
+  /** Tasks waiting to run before new work is refused */
+  maxPending?: number;
+
+  /** Called with any error a task throws */
+  onError?: (error: unknown, key: string) => void;
+}
+
+export interface WorkQueueStats {
+  /** Tasks waiting to run */
+  pending: number;
+  /** Tasks running now */
+  running: number;
+  /** Tasks finished, successfully or not */
+  processed: number;
+  /** Tasks that threw */
+  failed: number;
+  /** Tasks refused because the queue was full */
+  rejected: number;
+  /** Longest a finished task waited before it started, in ms */
+  maxWaitMs: number;
+  concurrency: number;
+  maxPending: number;
+}
+
+interface QueuedTask {
+  key: string;
+  run: () => Promise<void>;
+  enqueuedAt: number;
+}
+
+export class KeyedWorkQueue {
+  private concurrency: number;
+  private maxPending: number;
+  private onError?: (error: unknown, key: string) => void;
+  private waiting: QueuedTask[] = [];
+  /** Keys with a task running; their later tasks wait behind it */
+  private activeKeys = new Set<string>();
+  private idleWaiters: Array<() => void> = [];
+  private counters = { processed: 0, failed: 0, rejected: 0, maxWaitMs: 0 };
+
+  constructor(options: WorkQueueOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_QUEUE_CONCURRENCY);
+    this.maxPending = Math.max(1, options.maxPending ?? DEFAULT_QUEUE_MAX_PENDING);
+    this.onError = options.onError;
+  }
+
+  /**
+   * Queue a task under a key. Returns false, without queueing, when the
+   * queue is full.
+   */
+  enqueue(key: string, run: () => Promise<void>): boolean {
+    if (this.isFull()) {
+      this.counters.rejected++;
+      return false;
+    }
+
+    this.waiting.push({ key, run, enqueuedAt: Date.now() });
+    this.pump();
+    return true;
+  }
+
+  /**
+   * Whether new work would be refused
+   */
+  isFull(): boolean {
+    return this.waiting.length >= this.maxPending;
+  }
+
+  /**
+   * Resolve once no task is waiting or running
+   */
+  onIdle(): Promise<void> {
+    if (this.isIdle()) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Snapshot of queue depth and throughput, for backpressure monitoring
+   */
+  stats(): WorkQueueStats {
+    return {
+      pending: this.waiting.length,
+      running: this.activeKeys.size,
+      ...this.counters,
+      concurrency: this.concurrency,
+      maxPending: this.maxPending,
+    };
+  }
+
+  private pump(): void {
+    while (this.activeKeys.size < this.concurrency) {
+      // First waiting task whose key is not already running
+      const index = this.waiting.findIndex((task) => !this.activeKeys.has(task.key));
+      if (index === -1) {
+        break;
+      }
+      const [task] = this.waiting.splice(index, 1);
+      this.start(task);
+    }
+
+    if (this.isIdle()) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  private start(task: QueuedTask): void {
+    this.activeKeys.add(task.key);
+    this.counters.maxWaitMs = Math.max(this.counters.maxWaitMs, Date.now() - task.enqueuedAt);
+
+    Promise.resolve()
+      .then(task.run)
+      .catch((error) => {
+        this.counters.failed++;
+        this.onError?.(error, task.key);
+      })
+      .finally(() => {
+        this.counters.processed++;
+        this.activeKeys.delete(task.key);
+        this.pump();
+      });
+  }
+
+  private isIdle(): boolean {
+    return this.waiting.length === 0 && this.activeKeys.size === 0;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Tests for WebhookReconciler
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebhookReconciler, describeDrift } from './reconciler';
+import type { WebexWebhookHandler } from './webhook';
+import type { WebexWebhook, WebhookReconcileResult } from './types';
+
+const webhook = (id: string, resource: WebexWebhook['resource'], event: WebexWebhook['event']): WebexWebhook => ({
+  id,
+  name: 'OpenClaw Message Handler',
+  targetUrl: 'https://example.com/webhook',
+  resource,
+  event,
+  status: 'active',
+  created: '2024-01-01T00:00:00.000Z',
+  orgId: 'org-123',
+  createdBy: 'user-123',
+  appId: 'app-123',
+  ownedBy: 'creator',
+});
+
+const clean: WebhookReconcileResult = { healthy: [], reactivated: [], recreated: [], failed: [] };
+
+describe('WebhookReconciler', () => {
+  let handler: { reconcileWebhooks: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    handler = { reconcileWebhooks: vi.fn().mockResolvedValue(clean) };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const create = (options = {}) =>
+    new WebhookReconciler(handler as unknown as WebexWebhookHandler, options);
+
+  it('should report no issues when nothing drifted', async () => {
+    const onDrift = vi.fn();
+    const reconciler = create({ onDrift });
+
+    await expect(reconciler.runOnce()).resolves.toEqual([]);
+    expect(reconciler.getIssues()).toEqual([]);
+    expect(reconciler.getLastRunAt()).toBeInstanceOf(Date);
+    expect(onDrift).not.toHaveBeenCalled();
+  });
+
+  it('should report repaired drift', async () => {
+    handler.reconcileWebhooks.mockResolvedValueOnce({
+      ...clean,
+      reactivated: [webhook('webhook-1', 'messages', 'created')],
+    });
+    const onDrift = vi.fn();
+    const reconciler = create({ onDrift });
+
+    await reconciler.runOnce();
+
+    expect(reconciler.getIssues()).toEqual(['Reactivated inactive webhook messages/created (webhook-1)']);
+    expect(onDrift).toHaveBeenCalledWith(reconciler.getIssues());
+  });
+
+  it('should clear issues after a clean run', async () => {
+    handler.reconcileWebhooks.mockResolvedValueOnce({
+      ...clean,
+      recreated: [webhook('webhook-2', 'attachmentActions', 'created')],
+    });
+    const reconciler = create();
+
+    await reconciler.runOnce();
+    await reconciler.runOnce();
+
+    expect(reconciler.getIssues()).toEqual([]);
+  });
+
+  it('should report a failed run as an issue', async () => {
+    handler.reconcileWebhooks.mockRejectedValueOnce(new Error('Failed to list webhooks: 401 Unauthorized'));
+    const reconciler = create();
+
+    await reconciler.runOnce();
+
+    expect(reconciler.getIssues()).toEqual(['Webhook reconcile failed: Failed to list webhooks: 401 Unauthorized']);
+  });
+
+  it('should share one run between concurrent calls', async () => {
+    const reconciler = create();
+
+    await Promise.all([reconciler.runOnce(), reconciler.runOnce()]);
+
+    expect(handler.reconcileWebhooks).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run on the interval until stopped', async () => {
+    vi.useFakeTimers();
+    const reconciler = create({ intervalMs: 1000 });
+
+    reconciler.start();
+    expect(handler.reconcileWebhooks).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(handler.reconcileWebhooks).toHaveBeenCalledTimes(2);
+
+    reconciler.stop();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(handler.reconcileWebhooks).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not start with a zero interval', async () => {
+    vi.useFakeTimers();
+    const reconciler = create({ intervalMs: 0 });
+
+    reconciler.start();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(handler.reconcileWebhooks).not.toHaveBeenCalled();
+  });
+});
+
+describe('describeDrift', () => {
+  it('should describe every repair and failure', () => {
+    expect(
+      describeDrift({
+        healthy: [webhook('webhook-0', 'messages', 'created')],
+        reactivated: [webhook('webhook-1', 'messages', 'updated')],
+        recreated: [webhook('webhook-2', 'memberships', 'deleted')],
+        failed: [{ webhook: 'attachmentActions/created', error: 'Forbidden' }],
+      })
+    ).toEqual([
+      'Reactivated inactive webhook messages/updated (webhook-1)',
+      'Recreated missing webhook memberships/deleted (webhook-2)',
+      'Could not repair webhook attachmentActions/created: Forbidden',
+    ]);
+  });
+});
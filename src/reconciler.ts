@@ -0,0 +1,115 @@
+/**
+ * Webhook Reconciler
+ *
+ * Webex marks a webhook inactive after repeated delivery failures and never
+ * turns it back on, and webhooks can be deleted from outside the plugin.
+ * The reconciler periodically compares the registered webhooks with the
+ * ones the plugin needs, repairs any drift and keeps a record of it for the
+ * channel status.
+ */
+
+import type { WebexWebhookHandler } from './webhook';
+import type { WebhookReconcileResult } from './types';
+
+/** Reconcile every five minutes by default */
+export const DEFAULT_RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface WebhookReconcilerOptions {
+  /** Time between runs, in ms */
+  intervalMs?: number;
+
+  /** Called after each run that found drift or failed */
+  onDrift?: (issues: string[]) => void;
+}
+
+export class WebhookReconciler {
+  private handler: WebexWebhookHandler;
+  private intervalMs: number;
+  private onDrift?: (issues: string[]) => void;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<string[]> | null = null;
+  private issues: string[] = [];
+  private lastRunAt: Date | null = null;
+
+  constructor(handler: WebexWebhookHandler, options: WebhookReconcilerOptions = {}) {
+    this.handler = handler;
+    this.intervalMs = options.intervalMs ?? DEFAULT_RECONCILE_INTERVAL_MS;
+    this.onDrift = options.onDrift;
+  }
+
+  /**
+   * Start reconciling on an interval. The first run happens after one
+   * interval, since webhooks have just been registered at startup.
+   */
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.runOnce().catch(() => undefined);
+    }, this.intervalMs);
+    // Never keep the process alive just to reconcile
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Reconcile now and return the drift found, as human-readable issues.
+   * Concurrent calls share one run.
+   */
+  runOnce(): Promise<string[]> {
+    if (!this.running) {
+      this.running = this.reconcile().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Drift found by the most recent run; empty when everything was in place
+   */
+  getIssues(): string[] {
+    return [...this.issues];
+  }
+
+  getLastRunAt(): Date | null {
+    return this.lastRunAt;
+  }
+
+  private async reconcile(): Promise<string[]> {
+    let issues: string[];
+    try {
+      issues = describeDrift(await this.handler.reconcileWebhooks());
+    } catch (error) {
+      issues = [`Webhook reconcile failed: ${error instanceof Error ? error.message : error}`];
+    }
+
+    this.issues = issues;
+    this.lastRunAt = new Date();
+    if (issues.length > 0) {
+      this.onDrift?.(issues);
+    }
+    return issues;
+  }
+}
+
+/**
+ * Describe what a reconcile run had to repair or could not repair
+ */
+export function describeDrift(result: WebhookReconcileResult): string[] {
+  return [
+    ...result.reactivated.map((webhook) =>
+      `Reactivated inactive webhook ${webhook.resource}/${webhook.event} (${webhook.id})`),
+    ...result.recreated.map((webhook) =>
+      `Recreated missing webhook ${webhook.resource}/${webhook.event} (${webhook.id})`),
+    ...result.failed.map((failure) =>
+      `Could not repair webhook ${failure.webhook}: ${failure.error}`),
+  ];
+}
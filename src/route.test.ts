@@ -0,0 +1,80 @@
+/**
+ * Tests for the webhook route helpers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { checkWebhookUrl, deriveWebhookUrl, pingWebhookUrl, SELF_TEST_HEADER, webhookRoutePath } from './route';
+
+describe('deriveWebhookUrl', () => {
+  it('should append the account route to the base URL', () => {
+    expect(deriveWebhookUrl('https://bot.example.com', 'default')).toBe('https://bot.example.com/webhooks/webex/default');
+    expect(deriveWebhookUrl('https://example.com/gateway/', 'work')).toBe('https://example.com/gateway/webhooks/webex/work');
+  });
+});
+
+describe('checkWebhookUrl', () => {
+  it('should accept URLs ending with the account route', () => {
+    expect(webhookRoutePath('default')).toBe('/webhooks/webex/default');
+    expect(checkWebhookUrl('https://example.com/webhooks/webex/default', 'default')).toBeNull();
+    expect(checkWebhookUrl('https://example.com/proxy/webhooks/webex/default/', 'default')).toBeNull();
+  });
+
+  it('should flag URLs that miss the account route', () => {
+    expect(checkWebhookUrl('https://example.com/webhooks/webex', 'default')).toBe(
+      'webhookUrl path "/webhooks/webex" does not end with the webhook route "/webhooks/webex/default", so Webex deliveries will not reach this account'
+    );
+    expect(checkWebhookUrl('https://example.com/webhooks/webex/default', 'work')).not.toBeNull();
+    expect(checkWebhookUrl('not a url', 'default')).toBe('webhookUrl "not a url" is not a valid URL');
+  });
+});
+
+describe('pingWebhookUrl', () => {
+  const url = 'https://example.com/webhooks/webex/default';
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubFetch(response: { ok: boolean; status?: number; statusText?: string; body?: unknown }) {
+    const fetch = vi.fn().mockResolvedValue({
+      ok: response.ok,
+      status: response.status ?? 200,
+      statusText: response.statusText ?? 'OK',
+      json: vi.fn().mockResolvedValue(response.body),
+    });
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  it('should pass when the route echoes the nonce', async () => {
+    const fetch = stubFetch({ ok: true, body: { ok: true, selfTest: 'nonce-1' } });
+
+    const result = await pingWebhookUrl(url, 'nonce-1');
+
+    expect(result).toMatchObject({ ok: true, url });
+    expect(fetch).toHaveBeenCalledWith(url, expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ [SELF_TEST_HEADER]: 'nonce-1' }),
+    }));
+  });
+
+  it('should fail when some other server answers', async () => {
+    stubFetch({ ok: true, body: { ok: true } });
+
+    await expect(pingWebhookUrl(url, 'nonce-1')).resolves.toMatchObject({
+      ok: false,
+      error: 'the URL answered, but not from this gateway',
+    });
+  });
+
+  it('should report HTTP and network errors', async () => {
+    stubFetch({ ok: false, status: 404, statusText: 'Not Found' });
+    await expect(pingWebhookUrl(url, 'nonce-1')).resolves.toMatchObject({ ok: false, error: 'HTTP 404: Not Found' });
+
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND example.com')));
+    await expect(pingWebhookUrl(url, 'nonce-1')).resolves.toMatchObject({
+      ok: false,
+      error: 'getaddrinfo ENOTFOUND example.com',
+    });
+  });
+});
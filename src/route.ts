@@ -0,0 +1,100 @@
+/**
+ * Webhook Route
+ *
+ * The gateway serves each account's webhooks at a fixed local path, while
+ * `webhookUrl` is what Webex is told to call. The two are easy to get out of
+ * step, and a mismatch only shows up as deliveries silently going to a 404.
+ * These helpers derive the public URL from a base URL, check a configured
+ * one against the local route, and ping it end to end at startup.
+ */
+
+/** Header carrying the self-test nonce; the webhook route echoes it back */
+export const SELF_TEST_HEADER = 'x-openclaw-webex-self-test';
+
+const DEFAULT_SELF_TEST_TIMEOUT_MS = 10_000;
+
+/** Outcome of pinging the public webhook URL */
+export interface WebhookSelfTestResult {
+  ok: boolean;
+  /** URL that was pinged */
+  url: string;
+  error?: string;
+  elapsedMs: number;
+  checkedAt: string;
+}
+
+/**
+ * Local path the gateway serves an account's webhooks at
+ */
+export function webhookRoutePath(accountId: string): string {
+  return `/webhooks/webex/${accountId}`;
+}
+
+/**
+ * Public webhook URL for an account behind the given base URL
+ */
+export function deriveWebhookUrl(publicBaseUrl: string, accountId: string): string {
+  return `${publicBaseUrl.replace(/\/+$/, '')}${webhookRoutePath(accountId)}`;
+}
+
+/**
+ * Check that a webhook URL reaches the account's route. A reverse proxy may
+ * mount the gateway under a prefix, so only the end of the path must match.
+ * Returns a description of the problem, or null when the URL is fine.
+ */
+export function checkWebhookUrl(webhookUrl: string, accountId: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    return `webhookUrl "${webhookUrl}" is not a valid URL`;
+  }
+
+  const route = webhookRoutePath(accountId);
+  const pathname = url.pathname.replace(/\/+$/, '');
+  if (!pathname.endsWith(route)) {
+    return `webhookUrl path "${url.pathname}" does not end with the webhook route "${route}", so Webex deliveries will not reach this account`;
+  }
+  return null;
+}
+
+/**
+ * Send a ping through the public webhook URL. It passes only when the
+ * response echoes the nonce, i.e. when the request really reached this
+ * gateway's route rather than some other server answering 200.
+ */
+export async function pingWebhookUrl(
+  webhookUrl: string,
+  nonce: string,
+  timeoutMs = DEFAULT_SELF_TEST_TIMEOUT_MS
+): Promise<WebhookSelfTestResult> {
+  const start = Date.now();
+  const result = (ok: boolean, error?: string): WebhookSelfTestResult => ({
+    ok,
+    url: webhookUrl,
+    error,
+    elapsedMs: Date.now() - start,
+    checkedAt: new Date().toISOString(),
+  });
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { [SELF_TEST_HEADER]: nonce, 'Content-Type': 'application/json' },
+      body: '{}',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      return result(false, `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const body = await response.json().catch(() => null) as { selfTest?: string } | null;
+    if (body?.selfTest !== nonce) {
+      return result(false, 'the URL answered, but not from this gateway');
+    }
+    return result(true);
+  } catch (err) {
+    return result(false, err instanceof Error ? err.message : String(err));
+  }
+}
@@ -3,7 +3,12 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { WebexSender, WebexApiRequestError } from './send';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { WebexSender, WebexApiRequestError, WebexMessageEditError } from './send';
+import { WEBEX_MAX_MESSAGE_BYTES } from './chunker';
 import type { WebexChannelConfig, WebexMessage, OpenClawOutboundMessage } from './types';
 
 // Mock node-fetch
@@ -191,25 +196,61 @@ describe('WebexSender', () => {
       );
     });
 
-    it('should include file attachment (only first file)', async () => {
+    it('should include a single file attachment', async () => {
       mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
 
-      const outbound: OpenClawOutboundMessage = {
+      const result = await sender.send({
         to: 'room-123',
-        content: {
-          text: 'Check this file',
-          files: ['https://example.com/file1.pdf', 'https://example.com/file2.pdf'],
-        },
-      };
-
-      await sender.send(outbound);
+        content: { text: 'Check this file', files: ['https://example.com/file1.pdf'] },
+      });
 
+      expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(mockFetch).toHaveBeenCalledWith(
         expect.any(String),
         expect.objectContaining({
           body: expect.stringMatching(/"files":\["https:\/\/example\.com\/file1\.pdf"\]/),
         })
       );
+      expect(result.messageIds).toEqual(['message-123']);
+    });
+
+    it('should fan multiple files out into sequential messages', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-1' }))
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-2' }))
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-3' }));
+
+      const result = await sender.send({
+        to: 'room-123',
+        content: {
+          text: 'Check these files',
+          files: ['https://example.com/file1.pdf', 'https://example.com/file2.pdf', 'https://example.com/file3.pdf'],
+        },
+        parentId: 'parent-123',
+      });
+
+      const bodies = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body as string));
+      expect(bodies).toEqual([
+        { roomId: 'room-123', markdown: 'Check these files', parentId: 'parent-123', files: ['https://example.com/file1.pdf'] },
+        { roomId: 'room-123', parentId: 'parent-123', files: ['https://example.com/file2.pdf'] },
+        { roomId: 'room-123', parentId: 'parent-123', files: ['https://example.com/file3.pdf'] },
+      ]);
+      expect(result.id).toBe('message-1');
+      expect(result.messageIds).toEqual(['message-1', 'message-2', 'message-3']);
+    });
+
+    it('should stop at the first failed file send', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-1' }))
+        .mockResolvedValueOnce(createMockResponse({ message: 'Bad request' }, false, 400, 'Bad Request'));
+
+      await expect(
+        sender.send({
+          to: 'room-123',
+          content: { files: ['https://example.com/a.pdf', 'https://example.com/b.pdf', 'https://example.com/c.pdf'] },
+        })
+      ).rejects.toThrow(WebexApiRequestError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it('should include adaptive card attachment', async () => {
@@ -330,6 +371,99 @@ describe('WebexSender', () => {
     });
   });
 
+  describe('uploads', () => {
+    const lastRequest = () => {
+      const [url, init] = mockFetch.mock.calls[mockFetch.mock.calls.length - 1];
+      return { url, init, body: (init.body as Buffer).toString('utf-8') };
+    };
+
+    it('should upload a Buffer as multipart/form-data', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+      await sender.send({
+        to: 'room-123',
+        content: {
+          markdown: 'Here you go',
+          upload: { data: Buffer.from('PNGDATA'), fileName: 'chart.png' },
+        },
+        parentId: 'parent-123',
+      });
+
+      const { url, init, body } = lastRequest();
+      expect(url).toBe('https://webexapis.com/v1/messages');
+      expect(init.method).toBe('POST');
+      expect(init.headers['Content-Type']).toMatch(/^multipart\/form-data; boundary=/);
+      expect(init.headers.Authorization).toBe('Bearer test-token');
+      expect(body).toContain('name="roomId"\r\n\r\nroom-123');
+      expect(body).toContain('name="parentId"\r\n\r\nparent-123');
+      expect(body).toContain('name="markdown"\r\n\r\nHere you go');
+      expect(body).toContain('name="files"; filename="chart.png"\r\nContent-Type: image/png\r\n\r\nPNGDATA');
+    });
+
+    it('should upload a local file by path', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'webex-upload-'));
+      const filePath = path.join(dir, 'report.pdf');
+      await fs.writeFile(filePath, '%PDF-1.7');
+      mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+      try {
+        await sender.sendWithUpload('room-123', '', { data: filePath });
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+
+      const { body } = lastRequest();
+      expect(body).toContain('filename="report.pdf"\r\nContent-Type: application/pdf\r\n\r\n%PDF-1.7');
+      expect(body).not.toContain('name="markdown"');
+    });
+
+    it('should upload a stream with an explicit content type', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+      await sender.send({
+        to: 'person@example.com',
+        content: {
+          upload: { data: Readable.from([Buffer.from('OGG'), Buffer.from('S')]), fileName: 'reply', contentType: 'audio/ogg' },
+        },
+      });
+
+      const { body } = lastRequest();
+      expect(body).toContain('name="toPersonEmail"\r\n\r\nperson@example.com');
+      expect(body).toContain('filename="reply"\r\nContent-Type: audio/ogg\r\n\r\nOGGS');
+    });
+
+    it('should send file URLs before an upload', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-1' }))
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-2' }));
+
+      const result = await sender.send({
+        to: 'room-123',
+        content: { markdown: 'Two files', files: ['https://example.com/a.pdf'], upload: { data: Buffer.from('x'), fileName: 'b.txt' } },
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({ markdown: 'Two files', files: ['https://example.com/a.pdf'] });
+      expect(lastRequest().body).toContain('filename="b.txt"');
+      expect(lastRequest().body).not.toContain('Two files');
+      expect(result.messageIds).toEqual(['message-1', 'message-2']);
+    });
+
+    it('should send a card before an upload, since cards cannot be multipart', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-1' }))
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-2' }));
+
+      const result = await sender.send({
+        to: 'room-123',
+        content: { card: { type: 'AdaptiveCard', version: '1.3', body: [] }, upload: { data: Buffer.from('x') } },
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).attachments).toHaveLength(1);
+      expect(lastRequest().init.headers['Content-Type']).toMatch(/^multipart\/form-data/);
+      expect(result.messageIds).toEqual(['message-1', 'message-2']);
+    });
+  });
+
   describe('sendReply', () => {
     it('should send threaded reply', async () => {
       mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
@@ -376,6 +510,67 @@ describe('WebexSender', () => {
     });
   });
 
+  describe('editMessage', () => {
+    const editError = (message: string) => ({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+      json: vi.fn().mockResolvedValue({ message, trackingId: 'tracking-123' }),
+    });
+
+    it('should PUT the new markdown to the message', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockMessage, markdown: 'Updated' }));
+
+      const result = await sender.editMessage('message-123', 'room-123', 'Updated');
+
+      expect(result.markdown).toBe('Updated');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://webexapis.com/v1/messages/message-123',
+        expect.objectContaining({
+          method: 'PUT',
+          body: JSON.stringify({ roomId: 'room-123', markdown: 'Updated' }),
+        })
+      );
+    });
+
+    it('should reject markdown over the size limit without calling the API', async () => {
+      await expect(
+        sender.editMessage('message-123', 'room-123', 'a'.repeat(WEBEX_MAX_MESSAGE_BYTES + 1))
+      ).rejects.toThrow('maximum size');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should throw a typed error when the edit limit is reached', async () => {
+      mockFetch.mockResolvedValueOnce(editError('Message cannot be edited more than 10 times'));
+
+      const error = await sender.editMessage('message-123', 'room-123', 'Updated').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebexMessageEditError);
+      expect(error).toBeInstanceOf(WebexApiRequestError);
+      expect(error.reason).toBe('edit_limit');
+      expect(error.messageId).toBe('message-123');
+      expect(error.trackingId).toBe('tracking-123');
+    });
+
+    it('should throw a typed error when the message is too old to edit', async () => {
+      mockFetch.mockResolvedValueOnce(editError('Message is too old to be edited'));
+
+      const error = await sender.editMessage('message-123', 'room-123', 'Updated').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebexMessageEditError);
+      expect(error.reason).toBe('too_old');
+    });
+
+    it('should pass other errors through unchanged', async () => {
+      mockFetch.mockResolvedValueOnce(editError('Invalid roomId'));
+
+      const error = await sender.editMessage('message-123', 'room-123', 'Updated').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebexApiRequestError);
+      expect(error).not.toBeInstanceOf(WebexMessageEditError);
+    });
+  });
+
   describe('validation', () => {
     it('should throw error when no target specified', async () => {
       mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
@@ -399,13 +594,54 @@ describe('WebexSender', () => {
       await expect(sender.send(outbound)).rejects.toThrow('Message must have content');
     });
 
-    it('should throw error when text exceeds max size', async () => {
+    it('should split text exceeding max size across messages', async () => {
+      mockFetch.mockReset();
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-1' }))
+        .mockResolvedValueOnce(createMockResponse({ ...mockMessage, id: 'message-2' }));
       const outbound: OpenClawOutboundMessage = {
         to: 'room-123',
         content: { text: 'x'.repeat(8000) }, // Over 7439 bytes
       };
 
-      await expect(sender.send(outbound)).rejects.toThrow('exceeds maximum size');
+      const result = await sender.send(outbound);
+
+      const bodies = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body as string));
+      expect(bodies.map((body) => body.markdown.length)).toEqual([7439, 561]);
+      expect(result.messageIds).toEqual(['message-1', 'message-2']);
+    });
+
+    it('should measure the limit in bytes rather than characters', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(mockMessage));
+
+      // 3000 characters but 9000 bytes
+      await sender.sendToRoom('room-123', '€'.repeat(3000));
+
+      const bodies = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body as string));
+      expect(bodies).toHaveLength(2);
+      for (const body of bodies) {
+        expect(Buffer.byteLength(body.markdown, 'utf8')).toBeLessThanOrEqual(7439);
+      }
+    });
+
+    it('should send files and cards with the last chunk', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(mockMessage));
+
+      await sender.send({
+        to: 'room-123',
+        content: {
+          markdown: `${'word '.repeat(2000)}`,
+          files: ['https://example.com/file.pdf'],
+          card: { type: 'AdaptiveCard', version: '1.3', body: [] },
+        },
+        parentId: 'parent-123',
+      });
+
+      const bodies = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body as string));
+      expect(bodies).toHaveLength(2);
+      expect(bodies[0]).toEqual({ roomId: 'room-123', parentId: 'parent-123', markdown: expect.any(String) });
+      expect(bodies[1]).toMatchObject({ parentId: 'parent-123', files: ['https://example.com/file.pdf'] });
+      expect(bodies[1].attachments).toHaveLength(1);
     });
   });
 
@@ -438,6 +674,24 @@ describe('WebexSender', () => {
       expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
+    it('should resend the same multipart body when retrying an upload', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ message: 'Service Unavailable' }, false, 503, 'Service Unavailable'))
+        .mockResolvedValueOnce(createMockResponse(mockMessage));
+      const fastSender = new WebexSender({ ...config, maxRetries: 3, retryDelayMs: 10 });
+
+      const result = await fastSender.sendWithUpload('room-123', 'Retry me', {
+        data: Readable.from([Buffer.from('once')]),
+        fileName: 'once.txt',
+      });
+
+      expect(result.id).toBe('message-123');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const [first, second] = mockFetch.mock.calls.map(([, init]) => init.body as Buffer);
+      expect(second.equals(first)).toBe(true);
+      expect(second.toString('utf-8')).toContain('once');
+    });
+
     it('should retry on 502 bad gateway', async () => {
       mockFetch
         .mockResolvedValueOnce(createMockResponse({ message: 'Bad Gateway' }, false, 502, 'Bad Gateway'))
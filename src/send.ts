@@ -11,7 +11,11 @@ import type {
   WebexApiError,
   RetryOptions,
   RequestOptions,
+  OutboundFile,
+  WebexSendResult,
 } from './types';
+import { resolveUpload, buildMultipartBody } from './multipart';
+import { chunkMarkdown, WEBEX_MAX_MESSAGE_BYTES } from './chunker';
 
 const DEFAULT_API_BASE_URL = 'https://webexapis.com/v1';
 const DEFAULT_MAX_RETRIES = 3;
@@ -20,6 +24,9 @@ const DEFAULT_RETRY_DELAY_MS = 1000;
 // Rate limit status codes that should trigger retry
 const RETRY_STATUS_CODES = [429, 502, 503, 504];
 
+/** One file of an outbound message: a public URL or an upload */
+type OutboundFileItem = { url: string } | { upload: OutboundFile };
+
 export class WebexSender {
   private config: WebexChannelConfig;
   private apiBaseUrl: string;
@@ -35,18 +42,26 @@ export class WebexSender {
   }
 
   /**
-   * Send a message to Webex
+   * Send a message to Webex.
+   *
+   * Webex allows one file per message, so several files are sent as an
+   * ordered series: the text goes with the first file and each further file
+   * follows in its own message under the same parent.
    */
-  async send(message: OpenClawOutboundMessage): Promise<WebexMessage> {
+  async send(message: OpenClawOutboundMessage): Promise<WebexSendResult> {
     const request = this.buildMessageRequest(message);
-    return this.createMessage(request);
+    const items: OutboundFileItem[] = [
+      ...(message.content.files ?? []).map((url) => ({ url })),
+      ...(message.content.upload ? [{ upload: message.content.upload }] : []),
+    ];
+    return this.sendRequest(request, items);
   }
 
   /**
    * Send a text message to a room
    */
-  async sendToRoom(roomId: string, text: string, markdown?: string): Promise<WebexMessage> {
-    return this.createMessage({
+  async sendToRoom(roomId: string, text: string, markdown?: string): Promise<WebexSendResult> {
+    return this.sendRequest({
       roomId,
       markdown: markdown ? markdown : text,
     });
@@ -55,8 +70,8 @@ export class WebexSender {
   /**
    * Send a direct message to a person by ID
    */
-  async sendDirectById(personId: string, text: string, markdown?: string): Promise<WebexMessage> {
-    return this.createMessage({
+  async sendDirectById(personId: string, text: string, markdown?: string): Promise<WebexSendResult> {
+    return this.sendRequest({
       toPersonId: personId,
       markdown: markdown ? markdown : text,
     });
@@ -65,8 +80,8 @@ export class WebexSender {
   /**
    * Send a direct message to a person by email
    */
-  async sendDirectByEmail(email: string, text: string, markdown?: string): Promise<WebexMessage> {
-    return this.createMessage({
+  async sendDirectByEmail(email: string, text: string, markdown?: string): Promise<WebexSendResult> {
+    return this.sendRequest({
       toPersonEmail: email,
       markdown: markdown ? markdown : text,
     });
@@ -79,12 +94,19 @@ export class WebexSender {
     roomId: string,
     text: string,
     fileUrl: string
-  ): Promise<WebexMessage> {
-    return this.createMessage({
-      roomId,
-      markdown: text,
-      files: [fileUrl],
-    });
+  ): Promise<WebexSendResult> {
+    return this.sendRequest({ roomId, markdown: text }, [{ url: fileUrl }]);
+  }
+
+  /**
+   * Send a message with a local file, Buffer or stream uploaded to Webex
+   */
+  async sendWithUpload(
+    roomId: string,
+    text: string,
+    file: OutboundFile
+  ): Promise<WebexSendResult> {
+    return this.sendRequest({ roomId, markdown: text || undefined }, [{ upload: file }]);
   }
 
   /**
@@ -95,8 +117,8 @@ export class WebexSender {
     parentId: string,
     text: string,
     markdown?: string
-  ): Promise<WebexMessage> {
-    return this.createMessage({
+  ): Promise<WebexSendResult> {
+    return this.sendRequest({
       roomId,
       parentId,
       markdown: markdown ? markdown : text,
@@ -113,6 +135,29 @@ export class WebexSender {
     });
   }
 
+  /**
+   * Edit a message in place via PUT /messages/{id}.
+   * Edits cannot be split, so markdown over the size limit is rejected.
+   */
+  async editMessage(messageId: string, roomId: string, markdown: string): Promise<WebexMessage> {
+    if (!markdown) {
+      throw new Error('Edited message must have markdown content');
+    }
+    if (Buffer.byteLength(markdown, 'utf8') > WEBEX_MAX_MESSAGE_BYTES) {
+      throw new Error(`Edited message exceeds maximum size of ${WEBEX_MAX_MESSAGE_BYTES} bytes`);
+    }
+
+    try {
+      return await this.request<WebexMessage>({
+        method: 'PUT',
+        path: `/messages/${messageId}`,
+        body: { roomId, markdown },
+      });
+    } catch (error) {
+      throw toEditError(error as Error, messageId);
+    }
+  }
+
   /**
    * Delete a message by ID
    */
@@ -165,10 +210,6 @@ export class WebexSender {
     if (message.content.markdown) {
       request.markdown = message.content.markdown;
     }
-    if (message.content.files && message.content.files.length > 0) {
-      // Webex only allows one file per message
-      request.files = [message.content.files[0]];
-    }
     if (message.content.card) {
       request.attachments = [
         {
@@ -186,6 +227,54 @@ export class WebexSender {
     return request;
   }
 
+  /**
+   * Send a request as one or more messages: text over the Webex size limit
+   * is split into leading chunks, then the files follow one per message.
+   * Every message shares the request's target and parent.
+   */
+  private async sendRequest(
+    request: CreateMessageRequest,
+    items: OutboundFileItem[] = []
+  ): Promise<WebexSendResult> {
+    const messages: WebexMessage[] = [];
+    const followUp: CreateMessageRequest = {
+      roomId: request.roomId,
+      toPersonId: request.toPersonId,
+      toPersonEmail: request.toPersonEmail,
+      parentId: request.parentId,
+    };
+
+    // Oversized text goes out first; the final chunk carries the file and card
+    const field = request.markdown ? 'markdown' : 'text';
+    const chunks = request[field] ? chunkMarkdown(request[field]!) : [];
+    for (const chunk of chunks.slice(0, -1)) {
+      messages.push(await this.createMessage({ ...followUp, [field]: chunk }));
+    }
+    const last: CreateMessageRequest = chunks.length > 1 ? { ...request, [field]: chunks[chunks.length - 1] } : request;
+
+    // The first file rides along with the text, unless it is an upload
+    // and the message carries a card (cards cannot be sent as multipart)
+    const remaining = [...items];
+    const first = remaining[0];
+    if (first && 'url' in first) {
+      messages.push(await this.createMessage({ ...last, files: [first.url] }));
+      remaining.shift();
+    } else if (first && !last.attachments) {
+      messages.push(await this.createMessageWithUpload(last, first.upload));
+      remaining.shift();
+    } else {
+      messages.push(await this.createMessage(last));
+    }
+
+    for (const item of remaining) {
+      messages.push('url' in item
+        ? await this.createMessage({ ...followUp, files: [item.url] })
+        : await this.createMessageWithUpload(followUp, item.upload));
+    }
+
+    return { ...messages[0], messageIds: messages.map((sent) => sent.id) };
+  }
+
   /**
    * Create a message via the Webex API
    */
@@ -199,23 +288,63 @@ export class WebexSender {
     });
   }
 
+  /**
+   * Create a message with an uploaded file via multipart/form-data.
+   * The file is read up front so retries resend the same body.
+   */
+  private async createMessageWithUpload(
+    request: CreateMessageRequest,
+    file: OutboundFile
+  ): Promise<WebexMessage> {
+    if (request.files?.length) {
+      throw new Error('Message can have either a file URL or an upload, not both');
+    }
+    if (request.attachments?.length) {
+      throw new Error('Adaptive Cards cannot be sent with a file upload');
+    }
+    this.validateMessageRequest(request, true);
+
+    const upload = await resolveUpload(file);
+    const multipart = buildMultipartBody(
+      {
+        roomId: request.roomId,
+        toPersonId: request.toPersonId,
+        toPersonEmail: request.toPersonEmail,
+        parentId: request.parentId,
+        text: request.text,
+        markdown: request.markdown,
+      },
+      'files',
+      upload
+    );
+
+    return this.request<WebexMessage>({
+      method: 'POST',
+      path: '/messages',
+      multipart,
+    });
+  }
+
   /**
    * Validate a message request before sending
    */
-  private validateMessageRequest(request: CreateMessageRequest): void {
+  private validateMessageRequest(request: CreateMessageRequest, hasUpload = false): void {
     // Must have a target
     if (!request.roomId && !request.toPersonId && !request.toPersonEmail) {
       throw new Error('Message must have a target: roomId, toPersonId, or toPersonEmail');
     }
 
     // Must have content
-    if (!request.text && !request.markdown && !request.files?.length && !request.attachments?.length) {
+    if (!hasUpload && !request.text && !request.markdown && !request.files?.length && !request.attachments?.length) {
       throw new Error('Message must have content: text, markdown, files, or attachments');
     }
 
-    // Text has a max size of 7439 bytes
-    if (request.text && Buffer.byteLength(request.text, 'utf8') > 7439) {
-      throw new Error('Message text exceeds maximum size of 7439 bytes');
+    // Text and markdown have a max size of 7439 bytes
+    for (const field of ['text', 'markdown'] as const) {
+      const value = request[field];
+      if (value && Buffer.byteLength(value, 'utf8') > WEBEX_MAX_MESSAGE_BYTES) {
+        throw new Error(`Message ${field} exceeds maximum size of ${WEBEX_MAX_MESSAGE_BYTES} bytes`);
+      }
     }
   }
 
@@ -257,14 +386,14 @@ export class WebexSender {
     const url = `${this.apiBaseUrl}${options.path}`;
     const headers: Record<string, string> = {
       'Authorization': `Bearer ${this.config.token}`,
-      'Content-Type': 'application/json',
+      'Content-Type': options.multipart ? options.multipart.contentType : 'application/json',
       ...options.headers,
     };
 
     const response = await fetch(url, {
       method: options.method,
       headers,
-      body: options.body ? JSON.stringify(options.body) : undefined,
+      body: options.multipart ? options.multipart.body : options.body ? JSON.stringify(options.body) : undefined,
     });
 
     if (!response.ok) {
@@ -370,3 +499,57 @@ export class WebexApiRequestError extends Error {
     };
   }
 }
+
+export type WebexMessageEditErrorReason = 'edit_limit' | 'too_old';
+
+/**
+ * Error for edits Webex refuses: the message has been edited too many times
+ * or is too old to edit. Neither is worth retrying.
+ */
+export class WebexMessageEditError extends WebexApiRequestError {
+  readonly reason: WebexMessageEditErrorReason;
+  readonly messageId: string;
+
+  constructor(
+    message: string,
+    reason: WebexMessageEditErrorReason,
+    messageId: string,
+    cause: WebexApiRequestError
+  ) {
+    super(message, cause.statusCode, cause.trackingId, cause.details);
+    this.name = 'WebexMessageEditError';
+    this.reason = reason;
+    this.messageId = messageId;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, WebexMessageEditError);
+    }
+  }
+
+  toJSON(): object {
+    return {
+      ...super.toJSON(),
+      reason: this.reason,
+      messageId: this.messageId,
+    };
+  }
+}
+
+/**
+ * Map a failed edit onto a typed edit error when Webex reports one of its
+ * edit restrictions; other errors pass through unchanged
+ */
+function toEditError(error: Error, messageId: string): Error {
+  if (!(error instanceof WebexApiRequestError)) {
+    return error;
+  }
+
+  const text = [error.message, ...(error.details ?? []).map((detail) => detail.description)].join(' ');
+  if (/edit(ed|s)?\b.*\b(limit|maximum|more than|times)|too many edits/i.test(text)) {
+    return new WebexMessageEditError(error.message, 'edit_limit', messageId, error);
+  }
+  if (/too old|older than|no longer be edited|edit window/i.test(text)) {
+    return new WebexMessageEditError(error.message, 'too_old', messageId, error);
+  }
+  return error;
+}
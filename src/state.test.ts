@@ -0,0 +1,75 @@
+/**
+ * Tests for the state file helpers
+ */
+
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonStateFile, statePath } from './state';
+
+describe('statePath', () => {
+  const originalStateDir = process.env.OPENCLAW_STATE_DIR;
+
+  afterEach(() => {
+    if (originalStateDir === undefined) {
+      delete process.env.OPENCLAW_STATE_DIR;
+    } else {
+      process.env.OPENCLAW_STATE_DIR = originalStateDir;
+    }
+  });
+
+  it('should resolve under OPENCLAW_STATE_DIR when set', () => {
+    process.env.OPENCLAW_STATE_DIR = '/tmp/openclaw-state';
+
+    expect(statePath('webex', 'poll-default.json')).toBe(path.join('/tmp/openclaw-state', 'webex', 'poll-default.json'));
+  });
+
+  it('should fall back to ~/.openclaw', () => {
+    delete process.env.OPENCLAW_STATE_DIR;
+
+    expect(statePath('webex')).toBe(path.join(os.homedir(), '.openclaw', 'webex'));
+  });
+});
+
+describe('JsonStateFile', () => {
+  let dir: string;
+  let file: JsonStateFile<{ count: number }>;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'webex-state-'));
+    file = new JsonStateFile(path.join(dir, 'nested', 'state.json'), { label: 'test state' });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read null before anything was written', async () => {
+    await expect(file.read()).resolves.toBeNull();
+  });
+
+  it('should keep the last of several concurrent writes', async () => {
+    await Promise.all([file.write({ count: 1 }), file.write({ count: 2 }), file.write({ count: 3 })]);
+
+    await expect(file.read()).resolves.toEqual({ count: 3 });
+    expect((await fs.stat(file.filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should not let concurrent updates overwrite each other', async () => {
+    const increment = () => file.update((current) => {
+      const count = (current?.count ?? 0) + 1;
+      return { value: { count }, result: count };
+    });
+
+    await expect(Promise.all([increment(), increment(), increment()])).resolves.toEqual([1, 2, 3]);
+    await expect(file.read()).resolves.toEqual({ count: 3 });
+  });
+
+  it('should leave the file alone when an update returns no value', async () => {
+    await file.write({ count: 1 });
+
+    await expect(file.update((current) => ({ result: current?.count }))).resolves.toBe(1);
+    await expect(file.read()).resolves.toEqual({ count: 1 });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * State Files
+ *
+ * Dedupe keys, poll cursors and pairing approvals outlive the process in
+ * small JSON files under the OpenClaw state dir. This module locates those
+ * files and reads and writes them.
+ */
+
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Path of a file under the OpenClaw state dir (`OPENCLAW_STATE_DIR`, or
+ * `~/.openclaw`)
+ */
+export function statePath(...segments: string[]): string {
+  const stateDir = process.env.OPENCLAW_STATE_DIR || path.join(os.homedir(), '.openclaw');
+  return path.join(stateDir, ...segments);
+}
+
+export interface JsonStateFileOptions {
+  /** What the file holds, for error messages */
+  label: string;
+
+  /** Indentation of the written JSON; compact when omitted */
+  indent?: number;
+}
+
+/**
+ * A JSON file readable by other processes and written only by its owner.
+ * Writes and updates run one at a time in call order, so a slow write never
+ * lands after a newer one. Each write goes to a temporary file that is then
+ * renamed over the old one, so readers never see half a file.
+ */
+export class JsonStateFile<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly filePath: string,
+    private options: JsonStateFileOptions,
+  ) {}
+
+  /**
+   * Read the file, or null when it does not exist or cannot be parsed
+   */
+  async read(): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read ${this.options.label}:`, this.filePath, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Replace the file's contents. Failures are logged, not thrown.
+   */
+  write(value: T): Promise<void> {
+    const json = JSON.stringify(value, null, this.options.indent);
+    return this.enqueue(() => this.writeNow(json));
+  }
+
+  /**
+   * Read the file, apply a change and write the result, without another
+   * write or update of this file in between. The change returns the value
+   * to write, or undefined to leave the file alone, and a result to resolve
+   * with.
+   */
+  update<R>(change: (current: T | null) => { value?: T; result: R }): Promise<R> {
+    return this.enqueue(async () => {
+      const { value, result } = change(await this.read());
+      if (value !== undefined) {
+        await this.writeNow(JSON.stringify(value, null, this.options.indent));
+      }
+      return result;
+    });
+  }
+
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async writeNow(json: string): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${crypto.randomUUID()}.tmp`;
+      await fs.writeFile(tmpPath, json, { mode: 0o600 });
+      await fs.rename(tmpPath, this.filePath);
+    } catch (error) {
+      console.error(`Failed to write ${this.options.label}:`, this.filePath, error);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Tests for WebexStreamingReply
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebexStreamingReply } from './streaming';
+import { WebexApiRequestError, WebexMessageEditError } from './send';
+import type { WebexSender } from './send';
+import { WEBEX_MAX_MESSAGE_BYTES } from './chunker';
+
+describe('WebexStreamingReply', () => {
+  let sender: { send: ReturnType<typeof vi.fn>; editMessage: ReturnType<typeof vi.fn> };
+  let reply: WebexStreamingReply;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sender = {
+      send: vi.fn().mockResolvedValue({ id: 'placeholder-1', roomId: 'room-123', messageIds: ['placeholder-1'] }),
+      editMessage: vi.fn().mockResolvedValue({ id: 'placeholder-1', roomId: 'room-123' }),
+    };
+    reply = new WebexStreamingReply(sender as unknown as WebexSender, {
+      to: 'room-123',
+      parentId: 'parent-123',
+      editIntervalMs: 1000,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should post the first block as the placeholder', async () => {
+    await reply.push('Working on it');
+
+    expect(sender.send).toHaveBeenCalledWith({
+      to: 'room-123',
+      content: { markdown: 'Working on it' },
+      parentId: 'parent-123',
+    });
+    expect(sender.editMessage).not.toHaveBeenCalled();
+  });
+
+  it('should edit the placeholder as later blocks arrive', async () => {
+    await reply.push('First');
+    vi.advanceTimersByTime(1000);
+    await reply.push('Second');
+
+    expect(sender.send).toHaveBeenCalledTimes(1);
+    expect(sender.editMessage).toHaveBeenCalledWith('placeholder-1', 'room-123', 'First\n\nSecond');
+  });
+
+  it('should throttle edits and coalesce blocks within the interval', async () => {
+    await reply.push('First');
+    await reply.push('Second');
+    await reply.push('Third');
+
+    expect(sender.editMessage).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sender.editMessage).toHaveBeenCalledTimes(1);
+    expect(sender.editMessage).toHaveBeenCalledWith('placeholder-1', 'room-123', 'First\n\nSecond\n\nThird');
+  });
+
+  it('should flush a pending edit on finish', async () => {
+    await reply.push('First');
+    await reply.push('Second');
+    await reply.finish();
+
+    expect(sender.editMessage).toHaveBeenCalledWith('placeholder-1', 'room-123', 'First\n\nSecond');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sender.editMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not edit when nothing changed', async () => {
+    await reply.push('Only block');
+    await reply.finish();
+
+    expect(sender.editMessage).not.toHaveBeenCalled();
+  });
+
+  it('should send new messages once the placeholder is full', async () => {
+    const big = 'a'.repeat(WEBEX_MAX_MESSAGE_BYTES - 10);
+
+    await reply.push('First');
+    await reply.push('Second');
+    await reply.push(big);
+    await reply.push('After');
+
+    expect(sender.editMessage).toHaveBeenCalledWith('placeholder-1', 'room-123', 'First\n\nSecond');
+    expect(sender.send).toHaveBeenCalledTimes(3);
+    expect(sender.send.mock.calls[1][0].content.markdown).toBe(big);
+    expect(sender.send.mock.calls[2][0].content.markdown).toBe('After');
+  });
+
+  it('should send the missing text as a new message when edits are refused', async () => {
+    sender.editMessage.mockRejectedValueOnce(
+      new WebexMessageEditError('too many edits', 'edit_limit', 'placeholder-1', new WebexApiRequestError('too many edits', 400))
+    );
+
+    await reply.push('First');
+    await reply.push('Second');
+    await reply.finish();
+    await reply.push('Third');
+
+    expect(sender.send).toHaveBeenCalledTimes(3);
+    expect(sender.send.mock.calls[1][0].content.markdown).toBe('Second');
+    expect(sender.send.mock.calls[2][0].content.markdown).toBe('Third');
+  });
+
+  it('should apply markdown translation to every rendering', async () => {
+    reply = new WebexStreamingReply(sender as unknown as WebexSender, { to: 'room-123' });
+
+    await reply.push('- [ ] todo');
+    await reply.push('- [x] done');
+    await reply.finish();
+
+    expect(sender.send.mock.calls[0][0].content.markdown).toBe('- ⬜ todo');
+    expect(sender.editMessage).toHaveBeenCalledWith('placeholder-1', 'room-123', '- ⬜ todo\n\n- ✅ done');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Streaming Replies
+ *
+ * Long agent runs deliver their reply as a series of blocks. Rather than
+ * posting one Webex message per block, a streaming reply posts the first
+ * block as a placeholder message and edits it as further blocks arrive.
+ * Edits are throttled, and once the reply no longer fits in one message (or
+ * Webex refuses further edits) the remainder is sent as new messages.
+ */
+
+import { WebexMessageEditError } from './send';
+import type { WebexSender } from './send';
+import { WEBEX_MAX_MESSAGE_BYTES } from './chunker';
+import { toWebexMarkdown } from './markdown';
+import type { WebexMarkdownConfig } from './types';
+
+/** Default minimum gap between two edits of the placeholder */
+export const DEFAULT_STREAM_EDIT_INTERVAL_MS = 1000;
+
+const BLOCK_SEPARATOR = '\n\n';
+
+export interface WebexStreamingReplyOptions {
+  /** Room to reply in */
+  to: string;
+
+  /** Thread to reply in */
+  parentId?: string;
+
+  /** Markdown translation applied to each rendering of the reply */
+  markdown?: WebexMarkdownConfig;
+
+  /** Minimum gap between two edits, in ms */
+  editIntervalMs?: number;
+}
+
+export class WebexStreamingReply {
+  private sender: WebexSender;
+  private options: WebexStreamingReplyOptions;
+  private editIntervalMs: number;
+
+  /** Placeholder message being edited, once posted */
+  private messageId: string | null = null;
+  private roomId: string | null = null;
+
+  /** Raw text of the reply so far, and the part the placeholder shows */
+  private text = '';
+  private shownText = '';
+
+  /** Set once the reply has moved on to new messages */
+  private fallback = false;
+
+  private lastEditAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(sender: WebexSender, options: WebexStreamingReplyOptions) {
+    this.sender = sender;
+    this.options = options;
+    this.editIntervalMs = options.editIntervalMs ?? DEFAULT_STREAM_EDIT_INTERVAL_MS;
+  }
+
+  /**
+   * Add a block to the reply
+   */
+  push(block: string): Promise<void> {
+    return this.enqueue(() => this.append(block));
+  }
+
+  /**
+   * Flush any throttled edit. Call once the reply is complete.
+   */
+  finish(): Promise<void> {
+    this.cancelTimer();
+    return this.enqueue(() => this.flush());
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    // Keep the chain alive after a failure; the caller still sees the error
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async append(block: string): Promise<void> {
+    if (!block) {
+      return;
+    }
+
+    if (this.fallback) {
+      await this.sendNew(block);
+      return;
+    }
+
+    const next = this.text ? `${this.text}${BLOCK_SEPARATOR}${block}` : block;
+    if (byteLength(this.render(next)) > WEBEX_MAX_MESSAGE_BYTES) {
+      // The placeholder is full: settle it and carry on in new messages
+      await this.flush();
+      this.fallback = true;
+      await this.sendNew(block);
+      return;
+    }
+    this.text = next;
+
+    if (!this.messageId) {
+      const result = await this.sender.send({
+        to: this.options.to,
+        content: { markdown: this.render(this.text) },
+        parentId: this.options.parentId,
+      });
+      this.messageId = result.id;
+      this.roomId = result.roomId;
+      this.shownText = this.text;
+      this.lastEditAt = Date.now();
+      return;
+    }
+
+    const wait = this.lastEditAt + this.editIntervalMs - Date.now();
+    if (wait <= 0) {
+      this.cancelTimer();
+      await this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.enqueue(() => this.flush()).catch((error) => {
+          console.error('Failed to update streaming reply:', error);
+        });
+      }, wait);
+    }
+  }
+
+  /**
+   * Bring the placeholder up to date with the reply so far
+   */
+  private async flush(): Promise<void> {
+    if (!this.messageId || !this.roomId || this.text === this.shownText) {
+      return;
+    }
+
+    try {
+      await this.sender.editMessage(this.messageId, this.roomId, this.render(this.text));
+      this.shownText = this.text;
+      this.lastEditAt = Date.now();
+    } catch (error) {
+      if (!(error instanceof WebexMessageEditError)) {
+        throw error;
+      }
+      // No more edits allowed: post what the placeholder is missing instead
+      const missing = this.text.slice(this.shownText.length).replace(/^\n+/, '');
+      this.text = this.shownText;
+      this.fallback = true;
+      await this.sendNew(missing);
+    }
+  }
+
+  private async sendNew(text: string): Promise<void> {
+    // WebexSender.send splits oversized markdown into several messages
+    await this.sender.send({
+      to: this.options.to,
+      content: { markdown: this.render(text) },
+      parentId: this.options.parentId,
+    });
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private render(text: string): string {
+    return toWebexMarkdown(text, this.options.markdown);
+  }
+}
+
+function byteLength(text: string): number {
+  return Buffer.byteLength(text, 'utf8');
+}
@@ -8,22 +8,108 @@
 
 export type DmPolicy = 'allow' | 'deny' | 'allowlisted' | 'allowlist' | 'pairing';
 
+export type GroupPolicy = 'open' | 'allowlist' | 'deny' | 'mention-only';
+
+/** How inbound events reach the plugin: public webhooks, the Mercury websocket or REST polling */
+export type WebexTransport = 'webhook' | 'websocket' | 'polling';
+
+/** How markdown tables are rendered for Webex */
+export type MarkdownTableStyle = 'code' | 'list' | 'keep';
+
+export interface WebexMarkdownConfig {
+  /** Translate GitHub markdown into what Webex renders (defaults to true) */
+  enabled?: boolean;
+
+  /** Render tables as an aligned code block, a bullet list, or leave them (defaults to 'code') */
+  tables?: MarkdownTableStyle;
+
+  /** Replace task list checkboxes with emoji (defaults to true) */
+  taskListEmoji?: boolean;
+
+  /** Strip raw HTML tags (defaults to true) */
+  stripHtml?: boolean;
+}
+
+export interface WebexStreamingConfig {
+  /** Edit one placeholder message as reply blocks arrive instead of posting each block (defaults to false) */
+  enabled?: boolean;
+
+  /** Minimum gap between two edits of the placeholder, in ms (defaults to 1000) */
+  editIntervalMs?: number;
+}
+
+export interface WebexDedupeConfig {
+  /** How long a webhook delivery is remembered, in ms (defaults to one hour) */
+  ttlMs?: number;
+
+  /** Persist remembered deliveries to the OpenClaw state dir (defaults to false) */
+  persist?: boolean;
+}
+
+export interface WebexQueueConfig {
+  /** Webhook deliveries processed in parallel across rooms (defaults to 4) */
+  concurrency?: number;
+
+  /** Deliveries waiting to be processed before new ones are refused (defaults to 1000) */
+  maxPending?: number;
+}
+
+export interface WebexDebounceConfig {
+  /** Messages from one sender within this many ms make one agent turn (defaults to 0, off) */
+  windowMs?: number;
+}
+
+export interface WebexPollingConfig {
+  /** Shortest gap between polls, used while messages keep arriving, in ms (defaults to 5000) */
+  minIntervalMs?: number;
+
+  /** Longest gap between polls, reached while every room is quiet, in ms (defaults to 60000) */
+  maxIntervalMs?: number;
+
+  /** Most recently active rooms checked per poll (defaults to 50) */
+  maxRooms?: number;
+}
+
 export interface WebexChannelConfig {
   /** Webex Bot access token */
   token: string;
 
-  /** Public URL where webhooks will be received */
+  /** Public URL where webhooks will be received (unused with the websocket and polling transports) */
   webhookUrl: string;
 
+  /** Public base URL of the gateway; webhookUrl is derived from it when unset */
+  publicBaseUrl?: string;
+
+  /** Receive events via public webhooks, the Mercury websocket or polling (defaults to 'webhook') */
+  transport?: WebexTransport;
+
+  /** Device registration endpoint for the websocket transport */
+  deviceRegistrationUrl?: string;
+
+  /** Poll intervals for the polling transport */
+  polling?: WebexPollingConfig;
+
   /** Policy for handling direct messages */
   dmPolicy: DmPolicy;
 
   /** List of allowed person IDs or emails (used when dmPolicy is 'allowlisted') */
   allowFrom?: string[];
 
+  /** Policy for handling group spaces (defaults to 'open') */
+  groupPolicy?: GroupPolicy;
+
+  /** List of allowed room IDs or titles (used when groupPolicy is 'allowlist') */
+  allowRooms?: string[];
+
+  /** Only handle group messages that explicitly mention the bot */
+  requireMention?: boolean;
+
   /** Webhook secret for payload verification */
   webhookSecret?: string;
 
+  /** Name prefix marking the webhooks this account owns (defaults to 'OpenClaw (<accountId>)') */
+  webhookNamePrefix?: string;
+
   /** Base URL for Webex API (defaults to https://webexapis.com/v1) */
   apiBaseUrl?: string;
 
@@ -32,6 +118,36 @@ export interface WebexChannelConfig {
 
   /** Retry delay in milliseconds */
   retryDelayMs?: number;
+
+  /** Markdown message posted when the bot is added to a group space */
+  welcomeMessage?: string;
+
+  /** Largest inbound file downloaded for the agent, in bytes (defaults to 20MB) */
+  mediaMaxBytes?: number;
+
+  /** Allowed inbound MIME types, e.g. `image/*` (defaults to all) */
+  mediaAllowedTypes?: string[];
+
+  /** Outbound markdown translation */
+  markdown?: WebexMarkdownConfig;
+
+  /** Progressive replies by editing a placeholder message */
+  streaming?: WebexStreamingConfig;
+
+  /** Suppression of redelivered webhooks */
+  dedupe?: WebexDedupeConfig;
+
+  /** Background processing of webhook deliveries */
+  queue?: WebexQueueConfig;
+
+  /** Coalescing of rapid-fire messages */
+  debounce?: WebexDebounceConfig;
+
+  /** How often registered webhooks are checked and repaired, in ms (defaults to 5 minutes, 0 disables) */
+  webhookReconcileIntervalMs?: number;
+
+  /** Remove the account's webhooks from Webex when the account stops (defaults to false) */
+  deregisterOnStop?: boolean;
 }
 
 // ============================================================================
@@ -64,6 +180,19 @@ export interface WebexRoom {
   ownerId?: string;
 }
 
+export interface WebexMembership {
+  id: string;
+  roomId: string;
+  roomType?: 'direct' | 'group';
+  personId: string;
+  personEmail: string;
+  personDisplayName?: string;
+  personOrgId?: string;
+  isModerator?: boolean;
+  isMonitor?: boolean;
+  created: string;
+}
+
 export interface WebexMessage {
   id: string;
   roomId: string;
@@ -96,6 +225,16 @@ export interface AdaptiveCard {
   actions?: unknown[];
 }
 
+export interface WebexAttachmentAction {
+  id: string;
+  type: 'submit';
+  messageId: string;
+  inputs: Record<string, unknown>;
+  personId: string;
+  roomId: string;
+  created: string;
+}
+
 export interface WebexWebhook {
   id: string;
   name: string;
@@ -147,13 +286,25 @@ export interface WebexWebhookPayload {
 export interface WebexWebhookData {
   id: string;
   roomId: string;
-  roomType: 'direct' | 'group';
+  /** Absent for attachmentActions events */
+  roomType?: 'direct' | 'group';
   personId: string;
-  personEmail: string;
+  /** Absent for attachmentActions events */
+  personEmail?: string;
   created: string;
   mentionedPeople?: string[];
   mentionedGroups?: string[];
   files?: string[];
+  /** Card message the action was submitted from (attachmentActions only) */
+  messageId?: string;
+  /** Action type (attachmentActions only) */
+  type?: string;
+  /** Member display name (memberships only) */
+  personDisplayName?: string;
+  /** Member organization (memberships only) */
+  personOrgId?: string;
+  /** Whether the member is a moderator (memberships only) */
+  isModerator?: boolean;
 }
 
 // ============================================================================
@@ -180,6 +331,25 @@ export interface CreateWebhookRequest {
   secret?: string;
 }
 
+export interface UpdateWebhookRequest {
+  name: string;
+  targetUrl: string;
+  secret?: string;
+  status?: 'active' | 'inactive';
+}
+
+/** Outcome of comparing registered webhooks with the ones the plugin needs */
+export interface WebhookReconcileResult {
+  /** Registered and active */
+  healthy: WebexWebhook[];
+  /** Found inactive and reactivated */
+  reactivated: WebexWebhook[];
+  /** Found missing and created again */
+  recreated: WebexWebhook[];
+  /** Could not be repaired, by `resource/event` */
+  failed: Array<{ webhook: string; error: string }>;
+}
+
 export interface WebexApiError {
   message: string;
   errors?: Array<{
@@ -196,10 +366,20 @@ export interface PaginatedResponse<T> {
 // OpenClaw Envelope Types
 // ============================================================================
 
+export type OpenClawEnvelopeKind =
+  | 'message'
+  | 'messageEdited'
+  | 'messageDeleted'
+  | 'attachmentAction'
+  | 'membership';
+
 export interface OpenClawEnvelope {
   /** Unique message identifier */
   id: string;
 
+  /** Kind of inbound event (defaults to 'message') */
+  kind?: OpenClawEnvelopeKind;
+
   /** Channel identifier */
   channel: 'webex';
 
@@ -212,6 +392,10 @@ export interface OpenClawEnvelope {
     email?: string;
     displayName?: string;
     isBot: boolean;
+    /** Organization the author belongs to */
+    orgId?: string;
+    /** Whether the author is outside the bot's organization */
+    isExternal?: boolean;
   };
 
   /** Message content */
@@ -219,6 +403,10 @@ export interface OpenClawEnvelope {
     text?: string;
     markdown?: string;
     attachments?: OpenClawAttachment[];
+    /** Adaptive Card submission (kind 'attachmentAction' only) */
+    action?: OpenClawCardAction;
+    /** Bot membership change (kind 'membership' only) */
+    membership?: OpenClawMembershipEvent;
   };
 
   /** Message metadata */
@@ -227,15 +415,44 @@ export interface OpenClawEnvelope {
     roomId: string;
     timestamp: string;
     mentions?: string[];
+    /** Whether the bot was mentioned directly or via @all */
+    wasMentioned?: boolean;
     parentId?: string;
-    raw: WebexMessage;
+    raw: WebexMessage | WebexAttachmentAction | WebexMembership;
   };
 }
 
+export interface OpenClawCardAction {
+  /** Attachment action ID */
+  id: string;
+
+  /** ID of the card message the action was submitted from */
+  messageId: string;
+
+  /** Values of the card's input fields */
+  inputs: Record<string, unknown>;
+}
+
+export interface OpenClawMembershipEvent {
+  /** Whether the bot joined or left the space */
+  event: 'added' | 'removed';
+
+  /** Person who added or removed the bot */
+  actorId: string;
+}
+
 export interface OpenClawAttachment {
   type: 'file' | 'card';
   url?: string;
   content?: unknown;
+  /** File name, when known */
+  name?: string;
+  /** MIME type, when known */
+  contentType?: string;
+  /** Local path of the downloaded file */
+  path?: string;
+  /** Size in bytes */
+  size?: number;
 }
 
 export interface OpenClawOutboundMessage {
@@ -246,7 +463,10 @@ export interface OpenClawOutboundMessage {
   content: {
     text?: string;
     markdown?: string;
+    /** Public file URLs for Webex to fetch */
     files?: string[];
+    /** Local file, Buffer or stream uploaded as multipart/form-data */
+    upload?: OutboundFile;
     card?: AdaptiveCard;
   };
 
@@ -254,6 +474,23 @@ export interface OpenClawOutboundMessage {
   parentId?: string;
 }
 
+/** Result of a send, which may span several Webex messages */
+export interface WebexSendResult extends WebexMessage {
+  /** IDs of every message created, in order (the first is this message) */
+  messageIds: string[];
+}
+
+export interface OutboundFile {
+  /** Local file path (or file:// URL), Buffer or readable stream */
+  data: string | Buffer | NodeJS.ReadableStream;
+
+  /** File name shown in Webex (defaults to the path's basename) */
+  fileName?: string;
+
+  /** MIME type (guessed from the file name when omitted) */
+  contentType?: string;
+}
+
 // ============================================================================
 // Plugin Types
 // ============================================================================
@@ -265,11 +502,11 @@ export interface WebexChannelPlugin {
   /** Initialize the channel with configuration */
   initialize(config: WebexChannelConfig): Promise<void>;
 
-  /** Send a message */
-  send(message: OpenClawOutboundMessage): Promise<WebexMessage>;
+  /** Send a message, split across several Webex messages when it has several files */
+  send(message: OpenClawOutboundMessage): Promise<WebexSendResult>;
 
-  /** Handle incoming webhook */
-  handleWebhook(payload: WebexWebhookPayload): Promise<OpenClawEnvelope | null>;
+  /** Handle incoming webhook, optionally verifying its X-Spark-Signature */
+  handleWebhook(payload: WebexWebhookPayload, signature?: string): Promise<OpenClawEnvelope | null>;
 
   /** Register webhooks with Webex */
   registerWebhooks(): Promise<WebexWebhook[]>;
@@ -296,5 +533,7 @@ export interface RequestOptions {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
   path: string;
   body?: unknown;
+  /** Pre-encoded multipart body, sent instead of JSON */
+  multipart?: { contentType: string; body: Buffer };
   headers?: Record<string, string>;
 }
@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { WebexWebhookHandler, WebhookValidationError } from './webhook';
+import { WebexWebhookHandler, WebhookValidationError, verifyWebhookSignature } from './webhook';
+import { PairingStore } from './pairing';
 import type {
   WebexChannelConfig,
   WebexWebhookPayload,
@@ -31,6 +32,15 @@ function createMockResponse(data: unknown, ok = true, status = 200, statusText =
   };
 }
 
+// Raw webhook body as delivered by Webex, with signatures precomputed for secret 'fixture-secret'
+const SIGNED_FIXTURE = {
+  secret: 'fixture-secret',
+  body: '{"id":"webhook-id","name":"OpenClaw Message Handler","targetUrl":"https://example.com/webhook","resource":"messages","event":"created","orgId":"org-123","createdBy":"user-123","appId":"app-123","ownedBy":"creator","status":"active","created":"2024-01-01T00:00:00.000Z","actorId":"actor-123","data":{"id":"message-123","roomId":"room-123","roomType":"group","personId":"person-123","personEmail":"person@example.com","created":"2024-01-01T00:00:00.000Z"}}',
+  sha1: '1bb6da450c8d15e37639795c54bb16a7ab6c3f36',
+  sha256: '7039440af46893aa35bcc0b56a6462f7eef479c0f2daa5dd8a57e4c1c8c3b8a7',
+  sha512: '636874da8f15085f43e4a2c41948680cb790e2cdbbcf4f89670978ed87a5a56455dd92f400dad892893a33e8654ef7c8fd5a7052fd767dbadb5b5822166ce607',
+};
+
 describe('WebexWebhookHandler', () => {
   let config: WebexChannelConfig;
   let handler: WebexWebhookHandler;
@@ -39,6 +49,16 @@ describe('WebexWebhookHandler', () => {
     id: 'bot-123',
     displayName: 'Test Bot',
     emails: ['bot@example.com'],
+    orgId: 'org-123',
+  };
+
+  const mockPerson = {
+    id: 'person-123',
+    emails: ['person@example.com'],
+    displayName: 'Pat Example',
+    orgId: 'org-123',
+    created: '2024-01-01T00:00:00.000Z',
+    type: 'person' as const,
   };
 
   beforeEach(() => {
@@ -49,6 +69,8 @@ describe('WebexWebhookHandler', () => {
       dmPolicy: 'allow',
     };
     handler = new WebexWebhookHandler(config);
+    // Unmocked people lookups fail and are logged
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
   });
 
   afterEach(() => {
@@ -154,6 +176,56 @@ describe('WebexWebhookHandler', () => {
       expect(envelope?.author.id).toBe('person-123');
     });
 
+    describe('author profiles', () => {
+      it('should fill in display name and org from the people lookup', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockPerson));
+
+        const envelope = await handler.handleWebhook(createPayload());
+
+        expect(mockFetch).toHaveBeenCalledWith('https://webexapis.com/v1/people/person-123', expect.anything());
+        expect(envelope?.author).toEqual({
+          id: 'person-123',
+          email: 'person@example.com',
+          displayName: 'Pat Example',
+          isBot: false,
+          orgId: 'org-123',
+          isExternal: false,
+        });
+      });
+
+      it('should flag bots and external senders', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+        mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockPerson, type: 'bot', orgId: 'org-other' }));
+
+        const envelope = await handler.handleWebhook(createPayload());
+
+        expect(envelope?.author.isBot).toBe(true);
+        expect(envelope?.author.isExternal).toBe(true);
+      });
+
+      it('should cache profiles between messages', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockPerson));
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+        await handler.handleWebhook(createPayload());
+        const envelope = await handler.handleWebhook(createPayload());
+
+        expect(envelope?.author.displayName).toBe('Pat Example');
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      });
+
+      it('should still deliver the message when the lookup fails', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+        mockFetch.mockResolvedValueOnce(createMockResponse({ message: 'Forbidden' }, false, 403, 'Forbidden'));
+
+        const envelope = await handler.handleWebhook(createPayload());
+
+        expect(envelope?.author).toEqual({ id: 'person-123', email: 'person@example.com', isBot: false });
+      });
+    });
+
     it('should return null for non-message resource', async () => {
       const payload = createPayload({ resource: 'memberships' });
       const envelope = await handler.handleWebhook(payload);
@@ -161,13 +233,48 @@ describe('WebexWebhookHandler', () => {
       expect(envelope).toBeNull();
     });
 
-    it('should return null for non-created event', async () => {
-      const payload = createPayload({ event: 'deleted' });
+    it('should return null for unsupported message events', async () => {
+      const payload = createPayload({ event: 'started' });
       const envelope = await handler.handleWebhook(payload);
 
       expect(envelope).toBeNull();
     });
 
+    describe('edits and deletions', () => {
+      it('should refetch an edited message as a messageEdited envelope', async () => {
+        mockFetch.mockResolvedValueOnce(
+          createMockResponse({ ...mockMessage, text: 'Hello, corrected!', updated: '2024-01-01T00:05:00.000Z' })
+        );
+
+        const envelope = await handler.handleWebhook(createPayload({ event: 'updated' }));
+
+        expect(mockFetch).toHaveBeenCalledWith('https://webexapis.com/v1/messages/message-123', expect.anything());
+        expect(envelope?.kind).toBe('messageEdited');
+        expect(envelope?.id).toBe('message-123');
+        expect(envelope?.content.text).toBe('Hello, corrected!');
+        expect(envelope?.metadata.timestamp).toBe('2024-01-01T00:05:00.000Z');
+      });
+
+      it('should build a messageDeleted envelope without fetching the message', async () => {
+        const envelope = await handler.handleWebhook(createPayload({ event: 'deleted' }));
+
+        expect(mockFetch).not.toHaveBeenCalledWith('https://webexapis.com/v1/messages/message-123', expect.anything());
+        expect(envelope?.kind).toBe('messageDeleted');
+        expect(envelope?.id).toBe('message-123');
+        expect(envelope?.conversationId).toBe('room-123');
+        expect(envelope?.content).toEqual({});
+      });
+
+      it('should ignore deletions of the bot\'s own messages', async () => {
+        const payload = createPayload({ event: 'deleted' });
+        payload.data.personId = 'bot-123';
+
+        const envelope = await handler.handleWebhook(payload);
+
+        expect(envelope).toBeNull();
+      });
+    });
+
     it('should return null for messages from bot itself', async () => {
       const payload = createPayload({
         data: {
@@ -240,6 +347,272 @@ describe('WebexWebhookHandler', () => {
       await expect(handler.handleWebhook(payload)).rejects.toThrow('Failed to fetch message');
     });
 
+    describe('Pairing', () => {
+      const directPayload = () =>
+        createPayload({
+          data: {
+            id: 'message-123',
+            roomId: 'dm-room-123',
+            roomType: 'direct',
+            personId: 'person-123',
+            personEmail: 'person@example.com',
+            created: '2024-01-01T00:00:00.000Z',
+          },
+        });
+
+      let store: PairingStore;
+      let pairingHandler: WebexWebhookHandler;
+
+      beforeEach(async () => {
+        store = new PairingStore();
+        pairingHandler = new WebexWebhookHandler(
+          { ...config, dmPolicy: 'pairing' },
+          { accountId: 'work', pairingStore: store }
+        );
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockBotInfo));
+        await pairingHandler.initialize();
+        mockFetch.mockClear();
+      });
+
+      it('should send a pairing code to an unknown sender and drop the message', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ id: 'code-message' }));
+
+        const envelope = await pairingHandler.handleWebhook(directPayload());
+
+        expect(envelope).toBeNull();
+        const [pending] = await store.listPending('work');
+        expect(pending.personId).toBe('person-123');
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://webexapis.com/v1/messages',
+          expect.objectContaining({
+            method: 'POST',
+            body: expect.stringContaining(pending.code),
+          })
+        );
+      });
+
+      it('should not resend the code while the request is pending', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ id: 'code-message' }));
+
+        await pairingHandler.handleWebhook(directPayload());
+        await pairingHandler.handleWebhook(directPayload());
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should issue a new code after the code could not be sent', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({}, false, 500, 'Internal Server Error'));
+
+        await expect(pairingHandler.handleWebhook(directPayload())).rejects.toThrow();
+        expect(await store.listPending()).toEqual([]);
+
+        mockFetch.mockResolvedValueOnce(createMockResponse({ id: 'code-message' }));
+        await pairingHandler.handleWebhook(directPayload());
+
+        const [pending] = await store.listPending('work');
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://webexapis.com/v1/messages',
+          expect.objectContaining({ body: expect.stringContaining(pending.code) })
+        );
+      });
+
+      it('should accept messages once the sender is approved', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ id: 'code-message' }));
+        await pairingHandler.handleWebhook(directPayload());
+        const [pending] = await store.listPending('work');
+        await store.approve(pending.code);
+
+        mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockMessage, roomType: 'direct' }));
+        const envelope = await pairingHandler.handleWebhook(directPayload());
+
+        expect(envelope).not.toBeNull();
+      });
+
+      it('should accept senders already in allowFrom without pairing', async () => {
+        const allowHandler = new WebexWebhookHandler(
+          { ...config, dmPolicy: 'pairing', allowFrom: ['person@example.com'] },
+          { pairingStore: store }
+        );
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockBotInfo));
+        await allowHandler.initialize();
+        mockFetch.mockClear();
+
+        mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockMessage, roomType: 'direct' }));
+        const envelope = await allowHandler.handleWebhook(directPayload());
+
+        expect(envelope).not.toBeNull();
+        expect(await store.listPending()).toEqual([]);
+      });
+    });
+
+    describe('attachmentActions', () => {
+      const mockAction = {
+        id: 'action-123',
+        type: 'submit',
+        messageId: 'card-message-123',
+        inputs: { choice: 'yes', comment: 'Looks good' },
+        personId: 'person-123',
+        roomId: 'room-123',
+        created: '2024-01-01T00:01:00.000Z',
+      };
+
+      const mockCardMessage: WebexMessage = {
+        id: 'card-message-123',
+        roomId: 'room-123',
+        roomType: 'group',
+        personId: 'bot-123',
+        personEmail: 'bot@example.com',
+        parentId: 'thread-parent-123',
+        created: '2024-01-01T00:00:00.000Z',
+      };
+
+      const createActionPayload = (personId = 'person-123'): WebexWebhookPayload =>
+        createPayload({
+          resource: 'attachmentActions',
+          data: {
+            id: 'action-123',
+            type: 'submit',
+            messageId: 'card-message-123',
+            roomId: 'room-123',
+            personId,
+            created: '2024-01-01T00:01:00.000Z',
+          },
+        });
+
+      it('should return an attachmentAction envelope with inputs and messageId', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockAction));
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockCardMessage));
+
+        const envelope = await handler.handleWebhook(createActionPayload());
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://webexapis.com/v1/attachment/actions/action-123',
+          expect.objectContaining({ method: 'GET' })
+        );
+        expect(envelope?.kind).toBe('attachmentAction');
+        expect(envelope?.id).toBe('action-123');
+        expect(envelope?.conversationId).toBe('room-123');
+        expect(envelope?.author.id).toBe('person-123');
+        expect(envelope?.content.action).toEqual({
+          id: 'action-123',
+          messageId: 'card-message-123',
+          inputs: { choice: 'yes', comment: 'Looks good' },
+        });
+        expect(envelope?.content.text).toContain('"choice":"yes"');
+        expect(envelope?.metadata.roomType).toBe('group');
+        expect(envelope?.metadata.parentId).toBe('thread-parent-123');
+      });
+
+      it('should ignore actions submitted by the bot itself', async () => {
+        const envelope = await handler.handleWebhook(createActionPayload('bot-123'));
+
+        expect(envelope).toBeNull();
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+
+      it('should apply DM policy to actions from direct rooms', async () => {
+        const denyHandler = new WebexWebhookHandler({ ...config, dmPolicy: 'deny' });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockBotInfo));
+        await denyHandler.initialize();
+
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockAction));
+        mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockCardMessage, roomType: 'direct' }));
+
+        const envelope = await denyHandler.handleWebhook(createActionPayload());
+        expect(envelope).toBeNull();
+      });
+
+      it('should match DM actions against allowFrom by the submitter email', async () => {
+        const allowHandler = new WebexWebhookHandler({
+          ...config,
+          dmPolicy: 'allowlist',
+          allowFrom: ['*@example.com'],
+        });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockBotInfo));
+        await allowHandler.initialize();
+
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockAction));
+        mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockCardMessage, roomType: 'direct' }));
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockPerson));
+
+        const envelope = await allowHandler.handleWebhook(createActionPayload());
+
+        expect(mockFetch).toHaveBeenCalledWith('https://webexapis.com/v1/people/person-123', expect.anything());
+        expect(envelope?.kind).toBe('attachmentAction');
+        expect(envelope?.author.email).toBe('person@example.com');
+      });
+
+      it('should throw error when action fetch fails', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({}, false, 404, 'Not Found'));
+
+        await expect(handler.handleWebhook(createActionPayload())).rejects.toThrow(
+          'Failed to fetch attachment action'
+        );
+      });
+
+      it('should return null for non-created attachmentActions events', async () => {
+        const payload = { ...createActionPayload(), event: 'deleted' as const };
+        const envelope = await handler.handleWebhook(payload);
+
+        expect(envelope).toBeNull();
+      });
+    });
+
+    describe('memberships', () => {
+      const createMembershipPayload = (
+        event: 'created' | 'deleted',
+        personId = 'bot-123',
+        roomType: 'direct' | 'group' = 'group'
+      ): WebexWebhookPayload =>
+        createPayload({
+          resource: 'memberships',
+          event,
+          actorId: 'actor-123',
+          data: {
+            id: 'membership-123',
+            roomId: 'room-123',
+            roomType,
+            personId,
+            personEmail: 'bot@example.com',
+            personDisplayName: 'Test Bot',
+            created: '2024-01-01T00:00:00.000Z',
+          },
+        });
+
+      it('should return a membership envelope when the bot is added', async () => {
+        const envelope = await handler.handleWebhook(createMembershipPayload('created'));
+
+        // Only the actor's profile is looked up; the membership itself is not fetched
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(mockFetch).toHaveBeenCalledWith('https://webexapis.com/v1/people/actor-123', expect.anything());
+        expect(envelope?.kind).toBe('membership');
+        expect(envelope?.conversationId).toBe('room-123');
+        expect(envelope?.author.id).toBe('actor-123');
+        expect(envelope?.content.membership).toEqual({ event: 'added', actorId: 'actor-123' });
+        expect(envelope?.metadata.roomType).toBe('group');
+      });
+
+      it('should return a membership envelope when the bot is removed', async () => {
+        const envelope = await handler.handleWebhook(createMembershipPayload('deleted'));
+
+        expect(envelope?.content.membership?.event).toBe('removed');
+        expect(envelope?.content.text).toBe('Bot was removed from the space');
+      });
+
+      it('should ignore membership changes for other people', async () => {
+        const envelope = await handler.handleWebhook(createMembershipPayload('created', 'person-456'));
+
+        expect(envelope).toBeNull();
+      });
+
+      it('should ignore membership updates', async () => {
+        const payload = { ...createMembershipPayload('created'), event: 'updated' as const };
+
+        expect(await handler.handleWebhook(payload)).toBeNull();
+      });
+    });
+
     describe('DM Policy', () => {
       it('should allow direct messages when dmPolicy is allow', async () => {
         mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockMessage, roomType: 'direct' }));
@@ -410,6 +783,183 @@ describe('WebexWebhookHandler', () => {
         const envelope = await allowHandler.handleWebhook(payload);
         expect(envelope).toBeNull();
       });
+
+      it.each([
+        ['the allowlist spelling', 'allowlist' as const, ['person@example.com']],
+        ['mixed-case emails', 'allowlisted' as const, ['Person@Example.COM']],
+        ['wildcard domains', 'allowlist' as const, ['*@example.com']],
+      ])('should allow senders matched via %s', async (_label, dmPolicy, allowFrom) => {
+        const allowHandler = new WebexWebhookHandler({ ...config, dmPolicy, allowFrom });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockBotInfo));
+        await allowHandler.initialize();
+        mockFetch.mockClear();
+
+        mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockMessage, roomType: 'direct' }));
+
+        const payload = createPayload({
+          data: {
+            id: 'message-123',
+            roomId: 'room-123',
+            roomType: 'direct',
+            personId: 'person-123',
+            personEmail: 'person@example.com',
+            created: '2024-01-01T00:00:00.000Z',
+          },
+        });
+
+        const envelope = await allowHandler.handleWebhook(payload);
+        expect(envelope).not.toBeNull();
+      });
+    });
+
+    describe('Group Policy', () => {
+      const createGroupHandler = async (overrides: Partial<WebexChannelConfig>) => {
+        const groupHandler = new WebexWebhookHandler({ ...config, ...overrides });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockBotInfo));
+        await groupHandler.initialize();
+        mockFetch.mockClear();
+        return groupHandler;
+      };
+
+      const mockRoom = {
+        id: 'room-123',
+        title: 'Engineering',
+        type: 'group',
+        isLocked: false,
+        lastActivity: '2024-01-01T00:00:00.000Z',
+        creatorId: 'person-123',
+        created: '2024-01-01T00:00:00.000Z',
+      };
+
+      it('should allow group messages when groupPolicy is open', async () => {
+        const openHandler = await createGroupHandler({ groupPolicy: 'open' });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+        expect(await openHandler.handleWebhook(createPayload())).not.toBeNull();
+      });
+
+      it('should deny group messages when groupPolicy is deny', async () => {
+        const denyHandler = await createGroupHandler({ groupPolicy: 'deny' });
+
+        expect(await denyHandler.handleWebhook(createPayload())).toBeNull();
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+
+      it('should not apply groupPolicy to direct messages', async () => {
+        const denyHandler = await createGroupHandler({ groupPolicy: 'deny' });
+        mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockMessage, roomType: 'direct' }));
+
+        const payload = createPayload({
+          data: { ...createPayload().data, roomType: 'direct' },
+        });
+
+        expect(await denyHandler.handleWebhook(payload)).not.toBeNull();
+      });
+
+      it('should allow allowlisted rooms by ID without fetching the room', async () => {
+        const allowHandler = await createGroupHandler({ groupPolicy: 'allowlist', allowRooms: ['room-123'] });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+        expect(await allowHandler.handleWebhook(createPayload())).not.toBeNull();
+        expect(mockFetch).not.toHaveBeenCalledWith(expect.stringContaining('/rooms/'), expect.anything());
+      });
+
+      it('should allow allowlisted rooms by title case-insensitively', async () => {
+        const allowHandler = await createGroupHandler({ groupPolicy: 'allowlist', allowRooms: ['engineering'] });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockRoom));
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+        expect(await allowHandler.handleWebhook(createPayload())).not.toBeNull();
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://webexapis.com/v1/rooms/room-123',
+          expect.objectContaining({ method: 'GET' })
+        );
+      });
+
+      it('should cache room titles between webhooks', async () => {
+        const allowHandler = await createGroupHandler({ groupPolicy: 'allowlist', allowRooms: ['Engineering'] });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockRoom));
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockPerson));
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+        await allowHandler.handleWebhook(createPayload());
+        await allowHandler.handleWebhook(createPayload());
+
+        const roomCalls = mockFetch.mock.calls.filter(([url]) => String(url).includes('/rooms/'));
+        expect(roomCalls).toHaveLength(1);
+      });
+
+      it('should deny rooms that are not allowlisted', async () => {
+        const allowHandler = await createGroupHandler({ groupPolicy: 'allowlist', allowRooms: ['Sales'] });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockRoom));
+
+        expect(await allowHandler.handleWebhook(createPayload())).toBeNull();
+      });
+
+      it('should deny when allowlist is empty', async () => {
+        const allowHandler = await createGroupHandler({ groupPolicy: 'allowlist', allowRooms: [] });
+
+        expect(await allowHandler.handleWebhook(createPayload())).toBeNull();
+      });
+
+      it('should deny when the room title cannot be resolved', async () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const allowHandler = await createGroupHandler({ groupPolicy: 'allowlist', allowRooms: ['Engineering'] });
+        mockFetch.mockResolvedValueOnce(createMockResponse({}, false, 404, 'Not Found'));
+
+        expect(await allowHandler.handleWebhook(createPayload())).toBeNull();
+        consoleError.mockRestore();
+      });
+
+      it('should allow mentioned messages when groupPolicy is mention-only', async () => {
+        const mentionHandler = await createGroupHandler({ groupPolicy: 'mention-only' });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+        const payload = createPayload({
+          data: { ...createPayload().data, mentionedPeople: ['bot-123'] },
+        });
+
+        expect(await mentionHandler.handleWebhook(payload)).not.toBeNull();
+      });
+
+      it('should deny unmentioned messages when requireMention is set', async () => {
+        const mentionHandler = await createGroupHandler({ groupPolicy: 'open', requireMention: true });
+
+        expect(await mentionHandler.handleWebhook(createPayload())).toBeNull();
+      });
+
+      it('should allow mentioned messages when requireMention is set', async () => {
+        const mentionHandler = await createGroupHandler({ groupPolicy: 'open', requireMention: true });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+        const payload = createPayload({
+          data: { ...createPayload().data, mentionedPeople: ['bot-123'] },
+        });
+
+        expect(await mentionHandler.handleWebhook(payload)).not.toBeNull();
+      });
+
+      it('should treat @all as a mention', async () => {
+        const mentionHandler = await createGroupHandler({ groupPolicy: 'mention-only' });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockMessage));
+
+        const payload = createPayload({
+          data: { ...createPayload().data, mentionedGroups: ['all'] },
+        });
+
+        expect(await mentionHandler.handleWebhook(payload)).not.toBeNull();
+      });
+
+      it('should deny unmentioned messages when groupPolicy is mention-only', async () => {
+        const mentionHandler = await createGroupHandler({ groupPolicy: 'mention-only' });
+
+        const payload = createPayload({
+          data: { ...createPayload().data, mentionedPeople: ['person-456'] },
+        });
+
+        expect(await mentionHandler.handleWebhook(payload)).toBeNull();
+      });
     });
 
     describe('normalizeMessage', () => {
@@ -470,6 +1020,47 @@ describe('WebexWebhookHandler', () => {
         expect(envelope?.metadata.mentions).toEqual(['user-1', 'user-2']);
       });
 
+      it('should strip the bot mention from text and markdown', async () => {
+        const mentionedMessage: WebexMessage = {
+          ...mockMessage,
+          text: "Test Bot what's the weather",
+          markdown: "<@personId:bot-123|Test Bot> what's the **weather**",
+          mentionedPeople: ['bot-123'],
+        };
+        mockFetch.mockResolvedValueOnce(createMockResponse(mentionedMessage));
+
+        const envelope = await handler.handleWebhook(createPayload());
+
+        expect(envelope?.content.text).toBe("what's the weather");
+        expect(envelope?.content.markdown).toBe("what's the **weather**");
+        expect(envelope?.metadata.wasMentioned).toBe(true);
+        expect(envelope?.metadata.raw).toEqual(mentionedMessage);
+      });
+
+      it('should use the html mention text when available', async () => {
+        const mentionedMessage: WebexMessage = {
+          ...mockMessage,
+          text: 'Test forecast please',
+          markdown: undefined,
+          html: '<p><spark-mention data-object-type="person" data-object-id="bot-123">Test</spark-mention> forecast please</p>',
+          mentionedPeople: ['bot-123'],
+        };
+        mockFetch.mockResolvedValueOnce(createMockResponse(mentionedMessage));
+
+        const envelope = await handler.handleWebhook(createPayload());
+
+        expect(envelope?.content.text).toBe('forecast please');
+      });
+
+      it('should not strip text when the bot is not mentioned', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ ...mockMessage, text: 'Test Bot is great' }));
+
+        const envelope = await handler.handleWebhook(createPayload());
+
+        expect(envelope?.content.text).toBe('Test Bot is great');
+        expect(envelope?.metadata.wasMentioned).toBe(false);
+      });
+
       it('should include parentId in metadata', async () => {
         const messageWithParent: WebexMessage = {
           ...mockMessage,
@@ -483,6 +1074,30 @@ describe('WebexWebhookHandler', () => {
         expect(envelope?.metadata.parentId).toBe('parent-message-123');
       });
     });
+
+    describe('handleMessage', () => {
+      it('should normalize a fetched message without fetching it again', async () => {
+        const envelope = await handler.handleMessage(mockMessage);
+
+        expect(envelope?.id).toBe('message-123');
+        expect(envelope?.content.text).toBe('Hello, world!');
+        expect(mockFetch).not.toHaveBeenCalledWith(
+          expect.stringContaining('/messages/'),
+          expect.anything()
+        );
+      });
+
+      it('should ignore messages from the bot itself', async () => {
+        await expect(handler.handleMessage({ ...mockMessage, personId: 'bot-123' })).resolves.toBeNull();
+      });
+
+      it('should apply the group policy', async () => {
+        config.groupPolicy = 'deny';
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        await expect(handler.handleMessage(mockMessage)).resolves.toBeNull();
+      });
+    });
   });
 
   describe('verifySignature', () => {
@@ -511,6 +1126,16 @@ describe('WebexWebhookHandler', () => {
       };
       expect(handler.verifySignature(payload, 'any-signature')).toBe(true);
     });
+
+    it('should return true for a valid raw body signature', () => {
+      const secretHandler = new WebexWebhookHandler({ ...config, webhookSecret: SIGNED_FIXTURE.secret });
+      expect(secretHandler.verifySignature(SIGNED_FIXTURE.body, SIGNED_FIXTURE.sha1)).toBe(true);
+    });
+
+    it('should return false for a missing signature when a secret is configured', () => {
+      const secretHandler = new WebexWebhookHandler({ ...config, webhookSecret: SIGNED_FIXTURE.secret });
+      expect(secretHandler.verifySignature(SIGNED_FIXTURE.body, undefined)).toBe(false);
+    });
   });
 
   describe('webhook management', () => {
@@ -521,64 +1146,210 @@ describe('WebexWebhookHandler', () => {
     });
 
     describe('registerWebhooks', () => {
-      it('should create webhooks after deleting existing ones with same URL', async () => {
-        const existingWebhooks: PaginatedResponse<WebexWebhook> = {
-          items: [
-            {
-              id: 'old-webhook-1',
-              name: 'Old Webhook',
-              targetUrl: 'https://example.com/webhook',
-              resource: 'messages',
-              event: 'created',
-              status: 'active',
-              created: '2024-01-01T00:00:00.000Z',
-              orgId: 'org-123',
-              createdBy: 'user-123',
-              appId: 'app-123',
-              ownedBy: 'creator',
-            },
-            {
-              id: 'other-webhook',
-              name: 'Other Webhook',
-              targetUrl: 'https://other.com/webhook',
-              resource: 'messages',
-              event: 'created',
-              status: 'active',
-              created: '2024-01-01T00:00:00.000Z',
-              orgId: 'org-123',
-              createdBy: 'user-123',
-              appId: 'app-123',
-              ownedBy: 'creator',
-            },
-          ],
-        };
+      const owned = (
+        resource: WebexWebhook['resource'],
+        event: WebexWebhook['event'],
+        overrides: Partial<WebexWebhook> = {}
+      ): WebexWebhook => ({
+        id: `webhook-${resource}-${event}`,
+        name: `OpenClaw (default) ${resource}/${event}`,
+        targetUrl: 'https://example.com/webhook',
+        resource,
+        event,
+        filter: resource === 'memberships' ? 'personId=bot-123' : undefined,
+        status: 'active',
+        created: '2024-01-01T00:00:00.000Z',
+        orgId: 'org-123',
+        createdBy: 'user-123',
+        appId: 'app-123',
+        ownedBy: 'creator',
+        ...overrides,
+      });
 
-        const newWebhook: WebexWebhook = {
-          id: 'new-webhook-1',
-          name: 'OpenClaw Message Handler',
-          targetUrl: 'https://example.com/webhook',
-          resource: 'messages',
-          event: 'created',
-          status: 'active',
-          created: '2024-01-01T00:00:00.000Z',
-          orgId: 'org-123',
-          createdBy: 'user-123',
-          appId: 'app-123',
-          ownedBy: 'creator',
-        };
+      const fullSet = () => [
+        owned('messages', 'created'),
+        owned('messages', 'updated'),
+        owned('messages', 'deleted'),
+        owned('attachmentActions', 'created'),
+        owned('memberships', 'created'),
+        owned('memberships', 'deleted'),
+      ];
 
-        // List webhooks
-        mockFetch.mockResolvedValueOnce(createMockResponse(existingWebhooks));
-        // Delete old webhook with same URL
-        mockFetch.mockResolvedValueOnce(createMockResponse({}, true, 204));
-        // Create new webhook
-        mockFetch.mockResolvedValueOnce(createMockResponse(newWebhook));
+      const writes = () => mockFetch.mock.calls.filter(([, init]) => init?.method !== 'GET');
+
+      it('should keep webhooks that already match', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: fullSet() }));
 
         const webhooks = await handler.registerWebhooks();
 
-        expect(webhooks).toHaveLength(1);
-        expect(webhooks[0].id).toBe('new-webhook-1');
-        expect(mockFetch).toHaveBeenCalledTimes(3);
+        expect(webhooks.map((w) => w.id)).toEqual(fullSet().map((w) => w.id));
+        expect(writes()).toEqual([]);
+      });
+
+      it('should deregister only the webhooks it owns', async () => {
+        const foreign = owned('messages', 'created', { id: 'webhook-foreign', name: 'OpenClaw (work) messages/created' });
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: [...fullSet(), foreign] }));
+        mockFetch.mockResolvedValue(createMockResponse({}, true, 204));
+
+        const removed = await handler.deregisterWebhooks();
+
+        expect(removed.map((w) => w.id)).toEqual(fullSet().map((w) => w.id));
+        expect(writes().map(([url, init]) => [init.method, url])).toEqual(
+          fullSet().map((w) => ['DELETE', `https://webexapis.com/v1/webhooks/${w.id}`])
+        );
+      });
+
+      it('should update changed webhooks in place and create missing ones', async () => {
+        const existing = fullSet().filter((webhook) => webhook.resource !== 'attachmentActions');
+        existing[0] = owned('messages', 'created', { targetUrl: 'https://old.example.com/webhook' });
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: existing }));
+        mockFetch.mockResolvedValueOnce(createMockResponse(owned('messages', 'created')));
+        mockFetch.mockResolvedValueOnce(createMockResponse(owned('attachmentActions', 'created')));
+
+        const webhooks = await handler.registerWebhooks();
+
+        expect(webhooks).toHaveLength(6);
+        expect(writes()).toHaveLength(2);
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://webexapis.com/v1/webhooks/webhook-messages-created',
+          expect.objectContaining({
+            method: 'PUT',
+            body: expect.stringContaining('"targetUrl":"https://example.com/webhook"'),
+          })
+        );
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://webexapis.com/v1/webhooks',
+          expect.objectContaining({
+            method: 'POST',
+            body: expect.stringContaining('"name":"OpenClaw (default) attachmentActions/created"'),
+          })
+        );
+      });
+
+      it('should update a webhook whose secret changed', async () => {
+        const secretHandler = new WebexWebhookHandler({ ...config, webhookSecret: 'new-secret' });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockBotInfo));
+        await secretHandler.initialize();
+        mockFetch.mockClear();
+        const existing = fullSet().map((webhook) => ({ ...webhook, secret: 'new-secret' }));
+        existing[3] = { ...existing[3], secret: 'old-secret' };
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: existing }));
+        mockFetch.mockResolvedValueOnce(createMockResponse(existing[3]));
+
+        await secretHandler.registerWebhooks();
+
+        expect(writes()).toEqual([[
+          'https://webexapis.com/v1/webhooks/webhook-attachmentActions-created',
+          expect.objectContaining({ method: 'PUT', body: expect.stringContaining('"secret":"new-secret"') }),
+        ]]);
+      });
+
+      it('should never touch webhooks owned by other tools', async () => {
+        const foreign = [
+          owned('messages', 'created', { id: 'foreign-1', name: 'Zapier messages' }),
+          owned('messages', 'created', { id: 'foreign-2', name: 'OpenClaw (work) messages/created' }),
+        ];
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: [...foreign, ...fullSet()] }));
+
+        await handler.registerWebhooks();
+
+        expect(writes()).toEqual([]);
+      });
+
+      it('should adopt webhooks registered under the old names', async () => {
+        const existing = fullSet();
+        existing[0] = owned('messages', 'created', { id: 'legacy-1', name: 'OpenClaw Message Handler' });
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: existing }));
+        mockFetch.mockResolvedValueOnce(createMockResponse(owned('messages', 'created', { id: 'legacy-1' })));
+
+        await handler.registerWebhooks();
+
+        expect(writes()).toEqual([[
+          'https://webexapis.com/v1/webhooks/legacy-1',
+          expect.objectContaining({
+            method: 'PUT',
+            body: expect.stringContaining('"name":"OpenClaw (default) messages/created"'),
+          }),
+        ]]);
+      });
+
+      it('should remove its own duplicates and webhooks it no longer needs', async () => {
+        const existing = [
+          ...fullSet(),
+          owned('messages', 'created', { id: 'duplicate' }),
+          owned('rooms', 'created', { id: 'unneeded' }),
+        ];
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: existing }));
+        mockFetch.mockResolvedValue(createMockResponse({}, true, 204));
+        vi.spyOn(console, 'info').mockImplementation(() => {});
+
+        await handler.registerWebhooks();
+
+        expect(writes().map(([url, init]) => [init.method, url])).toEqual([
+          ['DELETE', 'https://webexapis.com/v1/webhooks/duplicate'],
+          ['DELETE', 'https://webexapis.com/v1/webhooks/unneeded'],
+        ]);
+      });
+
+      it('should use the configured name prefix', async () => {
+        const prefixed = new WebexWebhookHandler({ ...config, webhookNamePrefix: 'Bot A' }, { accountId: 'work' });
+        mockFetch.mockResolvedValueOnce(createMockResponse(mockBotInfo));
+        await prefixed.initialize();
+        mockFetch.mockClear();
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: fullSet() }));
+        mockFetch.mockResolvedValue(createMockResponse({ id: 'webhook-1' }));
+
+        await prefixed.registerWebhooks();
+
+        const created = writes().filter(([, init]) => init.method === 'POST').map(([, init]) => JSON.parse(init.body).name);
+        expect(created).toHaveLength(6);
+        expect(created[0]).toBe('Bot A messages/created');
+        // The default account's webhooks are not this handler's to remove
+        expect(writes().some(([, init]) => init.method === 'DELETE')).toBe(false);
+      });
+
+      it('should subscribe to message created, updated and deleted events', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: [] }));
+        mockFetch.mockResolvedValue(createMockResponse({ id: 'webhook-1' }));
+
+        await handler.registerWebhooks();
+
+        const messageBodies = mockFetch.mock.calls
+          .filter(([, init]) => init?.method === 'POST')
+          .map(([, init]) => JSON.parse(init.body))
+          .filter((body) => body.resource === 'messages');
+
+        expect(messageBodies.map((body) => body.event)).toEqual(['created', 'updated', 'deleted']);
+      });
+
+      it('should subscribe to bot membership created and deleted events', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: [] }));
+        mockFetch.mockResolvedValue(createMockResponse({ id: 'webhook-1' }));
+
+        await handler.registerWebhooks();
+
+        const membershipBodies = mockFetch.mock.calls
+          .filter(([, init]) => init?.method === 'POST')
+          .map(([, init]) => JSON.parse(init.body))
+          .filter((body) => body.resource === 'memberships');
+
+        expect(membershipBodies.map((body) => body.event)).toEqual(['created', 'deleted']);
+        expect(membershipBodies[0].filter).toBe('personId=bot-123');
+      });
+
+      it('should subscribe to attachmentActions created events', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: [] }));
+        mockFetch.mockResolvedValue(createMockResponse({ id: 'webhook-1' }));
+
+        await handler.registerWebhooks();
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://webexapis.com/v1/webhooks',
+          expect.objectContaining({
+            method: 'POST',
+            body: expect.stringContaining('"resource":"attachmentActions"'),
+          })
+        );
       });
 
       it('should include webhook secret when configured', async () => {
@@ -718,6 +1489,137 @@ describe('WebexWebhookHandler', () => {
         await expect(handler.deleteWebhook('webhook-123')).rejects.toThrow('Failed to delete webhook');
       });
     });
+
+    describe('updateWebhook', () => {
+      it('should PUT the webhook', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ id: 'webhook-123', status: 'active' }));
+
+        await handler.updateWebhook('webhook-123', {
+          name: 'OpenClaw Message Handler',
+          targetUrl: 'https://example.com/webhook',
+          status: 'active',
+        });
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://webexapis.com/v1/webhooks/webhook-123',
+          expect.objectContaining({
+            method: 'PUT',
+            body: JSON.stringify({
+              name: 'OpenClaw Message Handler',
+              targetUrl: 'https://example.com/webhook',
+              status: 'active',
+            }),
+          })
+        );
+      });
+
+      it('should throw error for failed responses', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({}, false, 404, 'Not Found'));
+
+        await expect(
+          handler.updateWebhook('webhook-123', { name: 'x', targetUrl: 'https://example.com/webhook' })
+        ).rejects.toThrow('Failed to update webhook');
+      });
+    });
+
+    describe('reconcileWebhooks', () => {
+      const registered = (resource: WebexWebhook['resource'], event: WebexWebhook['event'], status: WebexWebhook['status'] = 'active'): WebexWebhook => ({
+        id: `webhook-${resource}-${event}`,
+        name: `OpenClaw (default) ${resource}/${event}`,
+        targetUrl: 'https://example.com/webhook',
+        resource,
+        event,
+        status,
+        created: '2024-01-01T00:00:00.000Z',
+        orgId: 'org-123',
+        createdBy: 'user-123',
+        appId: 'app-123',
+        ownedBy: 'creator',
+      });
+
+      const allWebhooks = () => [
+        registered('messages', 'created'),
+        registered('messages', 'updated'),
+        registered('messages', 'deleted'),
+        registered('attachmentActions', 'created'),
+        registered('memberships', 'created'),
+        registered('memberships', 'deleted'),
+      ];
+
+      it('should leave healthy webhooks untouched', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: allWebhooks() }));
+
+        const result = await handler.reconcileWebhooks();
+
+        expect(result.healthy).toHaveLength(6);
+        expect(result.reactivated).toEqual([]);
+        expect(result.recreated).toEqual([]);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should reactivate inactive webhooks', async () => {
+        const webhooks = allWebhooks();
+        webhooks[0] = registered('messages', 'created', 'inactive');
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: webhooks }));
+        mockFetch.mockResolvedValueOnce(createMockResponse({ ...webhooks[0], status: 'active' }));
+
+        const result = await handler.reconcileWebhooks();
+
+        expect(result.reactivated.map((webhook) => webhook.id)).toEqual(['webhook-messages-created']);
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://webexapis.com/v1/webhooks/webhook-messages-created',
+          expect.objectContaining({
+            method: 'PUT',
+            body: expect.stringContaining('"status":"active"'),
+          })
+        );
+      });
+
+      it('should recreate missing webhooks', async () => {
+        const webhooks = allWebhooks().filter((webhook) => webhook.resource !== 'attachmentActions');
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: webhooks }));
+        mockFetch.mockResolvedValueOnce(createMockResponse(registered('attachmentActions', 'created')));
+
+        const result = await handler.reconcileWebhooks();
+
+        expect(result.recreated.map((webhook) => webhook.resource)).toEqual(['attachmentActions']);
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://webexapis.com/v1/webhooks',
+          expect.objectContaining({
+            method: 'POST',
+            body: expect.stringContaining('"resource":"attachmentActions"'),
+          })
+        );
+      });
+
+      it('should ignore webhooks for other target URLs', async () => {
+        const foreign = { ...registered('messages', 'created'), targetUrl: 'https://other.com/webhook' };
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: [foreign, ...allWebhooks().slice(1)] }));
+        mockFetch.mockResolvedValueOnce(createMockResponse(registered('messages', 'created')));
+
+        const result = await handler.reconcileWebhooks();
+
+        expect(result.recreated).toHaveLength(1);
+        expect(mockFetch).not.toHaveBeenCalledWith(
+          'https://webexapis.com/v1/webhooks/webhook-messages-created',
+          expect.anything()
+        );
+      });
+
+      it('should record webhooks it could not repair', async () => {
+        const webhooks = allWebhooks();
+        webhooks[3] = registered('attachmentActions', 'created', 'inactive');
+        mockFetch.mockResolvedValueOnce(createMockResponse({ items: webhooks }));
+        mockFetch.mockResolvedValueOnce(createMockResponse({}, false, 403, 'Forbidden'));
+
+        const result = await handler.reconcileWebhooks();
+
+        expect(result.failed).toEqual([
+          { webhook: 'attachmentActions/created', error: expect.stringContaining('Failed to update webhook') },
+        ]);
+        expect(result.healthy).toHaveLength(5);
+      });
+    });
   });
 
   describe('getBotId', () => {
@@ -734,6 +1636,66 @@ describe('WebexWebhookHandler', () => {
   });
 });
 
+describe('verifyWebhookSignature', () => {
+  it('should accept a SHA-1 signature', () => {
+    expect(verifyWebhookSignature(SIGNED_FIXTURE.body, SIGNED_FIXTURE.sha1, SIGNED_FIXTURE.secret)).toBe(true);
+  });
+
+  it('should accept a SHA-256 signature', () => {
+    expect(verifyWebhookSignature(SIGNED_FIXTURE.body, SIGNED_FIXTURE.sha256, SIGNED_FIXTURE.secret)).toBe(true);
+  });
+
+  it('should accept a SHA-512 signature', () => {
+    expect(verifyWebhookSignature(SIGNED_FIXTURE.body, SIGNED_FIXTURE.sha512, SIGNED_FIXTURE.secret)).toBe(true);
+  });
+
+  it('should accept an algorithm-prefixed signature', () => {
+    expect(
+      verifyWebhookSignature(SIGNED_FIXTURE.body, `sha256=${SIGNED_FIXTURE.sha256}`, SIGNED_FIXTURE.secret)
+    ).toBe(true);
+  });
+
+  it('should accept an uppercase hex signature', () => {
+    expect(
+      verifyWebhookSignature(SIGNED_FIXTURE.body, SIGNED_FIXTURE.sha1.toUpperCase(), SIGNED_FIXTURE.secret)
+    ).toBe(true);
+  });
+
+  it('should verify Buffer bodies', () => {
+    expect(
+      verifyWebhookSignature(Buffer.from(SIGNED_FIXTURE.body), SIGNED_FIXTURE.sha1, SIGNED_FIXTURE.secret)
+    ).toBe(true);
+  });
+
+  it('should reject a signature made with another secret', () => {
+    expect(verifyWebhookSignature(SIGNED_FIXTURE.body, SIGNED_FIXTURE.sha1, 'other-secret')).toBe(false);
+  });
+
+  it('should reject a tampered body', () => {
+    const tampered = SIGNED_FIXTURE.body.replace('room-123', 'room-999');
+    expect(verifyWebhookSignature(tampered, SIGNED_FIXTURE.sha1, SIGNED_FIXTURE.secret)).toBe(false);
+  });
+
+  it('should reject a missing signature', () => {
+    expect(verifyWebhookSignature(SIGNED_FIXTURE.body, undefined, SIGNED_FIXTURE.secret)).toBe(false);
+    expect(verifyWebhookSignature(SIGNED_FIXTURE.body, '', SIGNED_FIXTURE.secret)).toBe(false);
+  });
+
+  it('should reject signatures of unknown length', () => {
+    expect(verifyWebhookSignature(SIGNED_FIXTURE.body, 'abc123', SIGNED_FIXTURE.secret)).toBe(false);
+  });
+
+  it('should reject non-hex signatures', () => {
+    expect(verifyWebhookSignature(SIGNED_FIXTURE.body, 'z'.repeat(40), SIGNED_FIXTURE.secret)).toBe(false);
+  });
+
+  it('should reject a prefix that does not match the digest length', () => {
+    expect(
+      verifyWebhookSignature(SIGNED_FIXTURE.body, `sha512=${SIGNED_FIXTURE.sha256}`, SIGNED_FIXTURE.secret)
+    ).toBe(false);
+  });
+});
+
 describe('WebhookValidationError', () => {
   it('should create error with message', () => {
     const error = new WebhookValidationError('Test error');
@@ -10,23 +10,131 @@ import type {
   WebexWebhookPayload,
   WebexWebhookData,
   WebexMessage,
+  WebexAttachmentAction,
+  WebexMembership,
+  WebexRoom,
   WebexWebhook,
+  WebexWebhookEvent,
   CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookReconcileResult,
   OpenClawEnvelope,
   OpenClawAttachment,
   PaginatedResponse,
 } from './types';
+import { isBotMentioned, extractMentionTexts, stripBotMention } from './mentions';
+import type { BotIdentity } from './mentions';
+import { PairingStore } from './pairing';
+import { PeopleLookup } from './people';
+import { normalizeDmPolicy, matchesAllowFrom } from './policy';
+import { WebexSender } from './send';
 
 const DEFAULT_API_BASE_URL = 'https://webexapis.com/v1';
+const DEFAULT_ACCOUNT_ID = 'default';
+
+/** Message events forwarded to OpenClaw */
+const MESSAGE_EVENTS: WebexWebhookEvent[] = ['created', 'updated', 'deleted'];
+
+/**
+ * Names webhooks were registered under before they carried a per-account
+ * prefix. Webhooks with these names and this handler's target URL are
+ * adopted rather than left behind as duplicates.
+ */
+const LEGACY_WEBHOOK_NAMES = [
+  'OpenClaw Message Handler',
+  'OpenClaw Message Handler (updated)',
+  'OpenClaw Message Handler (deleted)',
+  'OpenClaw Card Action Handler',
+  'OpenClaw Membership Handler (created)',
+  'OpenClaw Membership Handler (deleted)',
+];
+
+/**
+ * Whether a webhook name is one an OpenClaw account registers under by
+ * default, whichever account that is
+ */
+export function isOpenClawWebhookName(name: string): boolean {
+  return name.startsWith('OpenClaw (') || LEGACY_WEBHOOK_NAMES.includes(name);
+}
+
+/**
+ * HMAC algorithms Webex can sign webhook payloads with, keyed by the length
+ * of the hex digest found in the X-Spark-Signature header
+ */
+const SIGNATURE_ALGORITHMS: Record<number, 'sha1' | 'sha256' | 'sha512'> = {
+  40: 'sha1',
+  64: 'sha256',
+  128: 'sha512',
+};
+
+/**
+ * Verify an X-Spark-Signature header against the raw request body.
+ *
+ * The algorithm is taken from an explicit `sha256=` style prefix when present,
+ * otherwise inferred from the digest length. Comparison is timing-safe.
+ */
+export function verifyWebhookSignature(
+  body: Buffer | string,
+  signature: string | undefined,
+  secret: string,
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  let digest = signature.trim().toLowerCase();
+  let algorithm: string | undefined;
+
+  const prefixed = /^(sha1|sha256|sha512)=([0-9a-f]+)$/.exec(digest);
+  if (prefixed) {
+    algorithm = prefixed[1];
+    digest = prefixed[2];
+  } else {
+    algorithm = SIGNATURE_ALGORITHMS[digest.length];
+  }
+
+  if (!algorithm || !/^[0-9a-f]+$/.test(digest)) {
+    return false;
+  }
+
+  const expected = crypto.createHmac(algorithm, secret).update(body).digest();
+  const received = Buffer.from(digest, 'hex');
+
+  if (received.length !== expected.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(received, expected);
+}
+
+export interface WebexWebhookHandlerOptions {
+  /** Account the handler serves, used to name its webhooks and tag pairing requests */
+  accountId?: string;
+
+  /** Store for DM pairing requests and approvals (in-memory by default) */
+  pairingStore?: PairingStore;
+
+  /** Cached people lookup used to resolve author profiles */
+  people?: PeopleLookup;
+}
 
 export class WebexWebhookHandler {
   private config: WebexChannelConfig;
+  private accountId: string;
+  private pairingStore: PairingStore;
+  private people: PeopleLookup;
   private apiBaseUrl: string;
   private botId: string | null = null;
+  private botIdentity: BotIdentity | null = null;
+  private botOrgId: string | null = null;
+  private roomTitles = new Map<string, string>();
 
-  constructor(config: WebexChannelConfig) {
+  constructor(config: WebexChannelConfig, options: WebexWebhookHandlerOptions = {}) {
     this.config = config;
     this.apiBaseUrl = config.apiBaseUrl || DEFAULT_API_BASE_URL;
+    this.accountId = options.accountId ?? DEFAULT_ACCOUNT_ID;
+    this.pairingStore = options.pairingStore ?? new PairingStore();
+    this.people = options.people ?? new PeopleLookup(config);
   }
 
   /**
@@ -35,6 +143,8 @@ export class WebexWebhookHandler {
   async initialize(): Promise<void> {
     const botInfo = await this.getBotInfo();
     this.botId = botInfo.id;
+    this.botIdentity = botInfo;
+    this.botOrgId = botInfo.orgId ?? null;
   }
 
   getConfig(): WebexChannelConfig {
@@ -42,14 +152,45 @@ export class WebexWebhookHandler {
   }
 
   /**
-   * Handle an incoming webhook request
+   * Verify a webhook signature. Always passes when no secret is configured.
+   *
+   * Prefer passing the raw request body: a re-serialized payload only matches
+   * when Webex's JSON encoding happens to be reproduced exactly.
+   */
+  verifySignature(body: Buffer | string | WebexWebhookPayload, signature: string | undefined): boolean {
+    if (!this.config.webhookSecret) {
+      return true;
+    }
+    const raw = typeof body === 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body);
+    return verifyWebhookSignature(raw, signature, this.config.webhookSecret);
+  }
+
+  /**
+   * Handle an incoming webhook request.
+   *
+   * When a signature is given it is checked against the serialized payload;
+   * callers holding the raw body should verify it with verifySignature first.
    */
   async handleWebhook(
     payload: WebexWebhookPayload,
+    signature?: string,
   ): Promise<OpenClawEnvelope | null> {
+    if (signature !== undefined && !this.verifySignature(payload, signature)) {
+      throw new WebhookValidationError('Invalid webhook signature');
+    }
+
+    // Adaptive Card submissions
+    if (payload.resource === 'attachmentActions' && payload.event === 'created') {
+      return this.handleAttachmentAction(payload);
+    }
+
+    // Bot added to or removed from a space
+    if (payload.resource === 'memberships' && (payload.event === 'created' || payload.event === 'deleted')) {
+      return this.handleMembership(payload);
+    }
 
-    // Only handle message created events
-    if (payload.resource !== 'messages' || payload.event !== 'created') {
+    // Only handle message created, updated and deleted events
+    if (payload.resource !== 'messages' || !MESSAGE_EVENTS.includes(payload.event)) {
       console.error('Invalid webhook resource or event:', payload.resource, payload.event);
       return null;
     }
@@ -60,41 +201,239 @@ export class WebexWebhookHandler {
       return null;
     }
 
-    // Check DM policy
-    if (payload.data.roomType === 'direct') {
-      if (!this.isAllowedSender(payload.data)) {
-        console.error('Not allowed sender:', payload.data.personEmail);
-        return null;
-      }
+    // A deleted message can no longer be fetched, and its retraction only
+    // cancels work already accepted, so no policy check applies
+    if (payload.event === 'deleted') {
+      return this.normalizeDeletedMessage(payload);
+    }
+
+    if (!(await this.isAllowedMessage(payload.data))) {
+      return null;
     }
 
     // Fetch full message details (webhook only contains IDs)
     const message = await this.fetchMessage(payload.data.id);
 
     // Normalize to OpenClaw envelope
+    const envelope = await this.normalizeMessage(message);
+    if (payload.event === 'updated') {
+      envelope.kind = 'messageEdited';
+      envelope.metadata.timestamp = message.updated ?? envelope.metadata.timestamp;
+    }
+    return envelope;
+  }
+
+  /**
+   * Handle a message that was fetched rather than announced by a webhook,
+   * as the polling transport does. Applies the same checks as a
+   * messages/created webhook without fetching the message again.
+   */
+  async handleMessage(message: WebexMessage): Promise<OpenClawEnvelope | null> {
+    if (message.personId === this.botId) {
+      return null;
+    }
+    if (!(await this.isAllowedMessage(message))) {
+      return null;
+    }
     return this.normalizeMessage(message);
   }
 
+  /**
+   * Apply the DM policy to direct messages and the group policy to the rest
+   */
+  private async isAllowedMessage(data: WebexWebhookData): Promise<boolean> {
+    if (data.roomType === 'direct') {
+      if (!(await this.isAllowedSender(data))) {
+        console.error('Not allowed sender:', data.personEmail);
+        return false;
+      }
+    } else {
+      const mentioned = isBotMentioned(this.botId, data.mentionedPeople, data.mentionedGroups);
+      if (!(await this.isAllowedRoom(data.roomId, mentioned))) {
+        console.error('Not allowed room:', data.roomId);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Handle an Adaptive Card submission (attachmentActions/created)
+   */
+  private async handleAttachmentAction(
+    payload: WebexWebhookPayload,
+  ): Promise<OpenClawEnvelope | null> {
+    if (payload.data.personId === this.botId) {
+      console.debug('Ignoring attachment action from bot itself');
+      return null;
+    }
+
+    const action = await this.fetchAttachmentAction(payload.data.id);
+
+    // The action payload has no room type; the originating card message does
+    const cardMessage = await this.fetchMessage(action.messageId);
+
+    if (cardMessage.roomType === 'direct') {
+      // Action data carries no email, which email and domain entries need
+      const person = await this.people.get(action.personId);
+      if (!(await this.isAllowedSender({ ...payload.data, personEmail: person?.emails?.[0] }))) {
+        console.error('Not allowed sender:', payload.data.personId);
+        return null;
+      }
+    } else if (!(await this.isAllowedRoom(action.roomId, true))) {
+      // A card submission is addressed to the bot, so it counts as a mention
+      console.error('Not allowed room:', action.roomId);
+      return null;
+    }
+
+    return this.normalizeAttachmentAction(action, cardMessage);
+  }
+
+  /**
+   * Handle a membership change, keeping only those concerning the bot itself.
+   *
+   * Deleted memberships can no longer be fetched, so the envelope is built
+   * from the webhook data for both events.
+   */
+  private async handleMembership(payload: WebexWebhookPayload): Promise<OpenClawEnvelope | null> {
+    if (payload.data.personId !== this.botId) {
+      console.debug('Ignoring membership change for another person');
+      return null;
+    }
+
+    return this.normalizeMembership(payload);
+  }
+
   /**
    * Check if the sender is allowed based on DM policy
    */
-  private isAllowedSender(data: WebexWebhookData): boolean {
-    switch (this.config.dmPolicy) {
+  private async isAllowedSender(data: WebexWebhookData): Promise<boolean> {
+    switch (normalizeDmPolicy(this.config.dmPolicy)) {
       case 'allow':
         return true;
       case 'deny':
         return false;
-      case 'allowlisted':
-        if (!this.config.allowFrom || this.config.allowFrom.length === 0) {
-          return false;
-        }
-        return this.config.allowFrom.includes(data.personId) ||
-          this.config.allowFrom.includes(data.personEmail);
+      case 'allowlist':
+        return this.isInAllowFrom(data);
+      case 'pairing':
+        return this.isInAllowFrom(data) || this.checkPairing(data);
+      default:
+        return false;
+    }
+  }
+
+  private isInAllowFrom(data: WebexWebhookData): boolean {
+    return matchesAllowFrom(this.config.allowFrom, data.personId, data.personEmail);
+  }
+
+  /**
+   * Check a sender against approved pairings, issuing a pairing code to
+   * unknown senders. The code is only sent once per pending request, so a
+   * request whose code could not be sent is dropped again.
+   */
+  private async checkPairing(data: WebexWebhookData): Promise<boolean> {
+    if (await this.pairingStore.isApproved(data.personId, data.personEmail)) {
+      return true;
+    }
+
+    const { request, created } = await this.pairingStore.requestPairing({
+      accountId: this.accountId,
+      personId: data.personId,
+      personEmail: data.personEmail,
+      roomId: data.roomId,
+    });
+
+    if (created) {
+      const sender = new WebexSender(this.config);
+      try {
+        await sender.sendToRoom(
+          data.roomId,
+          `I don't recognise you yet. Your pairing code is **${request.code}**.\n\n` +
+            `Ask the bot owner to approve it with \`openclaw pairing approve webex ${request.code}\`.`,
+        );
+      } catch (error) {
+        await this.pairingStore.deny(request.code);
+        throw error;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Check if a group space is allowed based on group policy
+   *
+   * @param mentioned - whether the event explicitly addresses the bot
+   */
+  private async isAllowedRoom(roomId: string, mentioned: boolean): Promise<boolean> {
+    if (this.config.requireMention && !mentioned) {
+      return false;
+    }
+
+    switch (this.config.groupPolicy ?? 'open') {
+      case 'open':
+        return true;
+      case 'deny':
+        return false;
+      case 'mention-only':
+        return mentioned;
+      case 'allowlist':
+        return this.isAllowlistedRoom(roomId);
       default:
         return false;
     }
   }
 
+  /**
+   * Match a room against allowRooms by ID, falling back to its title
+   */
+  private async isAllowlistedRoom(roomId: string): Promise<boolean> {
+    const allowRooms = this.config.allowRooms ?? [];
+    if (allowRooms.length === 0) {
+      return false;
+    }
+    if (allowRooms.includes(roomId)) {
+      return true;
+    }
+
+    let title: string;
+    try {
+      title = await this.getRoomTitle(roomId);
+    } catch (error) {
+      console.error('Failed to resolve room title:', roomId, error);
+      return false;
+    }
+
+    const normalizedTitle = title.trim().toLowerCase();
+    return allowRooms.some((entry) => entry.trim().toLowerCase() === normalizedTitle);
+  }
+
+  /**
+   * Get a room's title, cached for the lifetime of the handler
+   */
+  private async getRoomTitle(roomId: string): Promise<string> {
+    const cached = this.roomTitles.get(roomId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const response = await fetch(`${this.apiBaseUrl}/rooms/${roomId}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.config.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch room: ${response.status} ${response.statusText}`);
+    }
+
+    const room = await response.json() as WebexRoom;
+    this.roomTitles.set(roomId, room.title);
+    return room.title;
+  }
+
   /**
    * Fetch full message details from Webex API
    */
@@ -115,10 +454,101 @@ export class WebexWebhookHandler {
     return response.json() as Promise<WebexMessage>;
   }
 
+  /**
+   * Fetch attachment action (card submission) details from Webex API
+   */
+  private async fetchAttachmentAction(actionId: string): Promise<WebexAttachmentAction> {
+    const response = await fetch(`${this.apiBaseUrl}/attachment/actions/${actionId}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.config.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      console.error('Failed to fetch attachment action:', actionId, response.status, response.statusText);
+      throw new Error(`Failed to fetch attachment action: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json() as Promise<WebexAttachmentAction>;
+  }
+
+  /**
+   * Normalize a card submission to OpenClaw envelope format
+   */
+  private async normalizeAttachmentAction(
+    action: WebexAttachmentAction,
+    cardMessage: WebexMessage,
+  ): Promise<OpenClawEnvelope> {
+    return {
+      id: action.id,
+      kind: 'attachmentAction',
+      channel: 'webex',
+      conversationId: action.roomId,
+      author: await this.resolveAuthor(action.personId),
+      content: {
+        text: `[Card submitted] ${JSON.stringify(action.inputs ?? {})}`,
+        action: {
+          id: action.id,
+          messageId: action.messageId,
+          inputs: action.inputs ?? {},
+        },
+      },
+      metadata: {
+        roomType: cardMessage.roomType,
+        roomId: action.roomId,
+        timestamp: action.created,
+        parentId: cardMessage.parentId,
+        raw: action,
+      },
+    };
+  }
+
+  /**
+   * Normalize a bot membership change to OpenClaw envelope format
+   */
+  private async normalizeMembership(payload: WebexWebhookPayload): Promise<OpenClawEnvelope> {
+    const { data } = payload;
+    const added = payload.event === 'created';
+    const membership: WebexMembership = {
+      id: data.id,
+      roomId: data.roomId,
+      roomType: data.roomType,
+      personId: data.personId,
+      personEmail: data.personEmail ?? '',
+      personDisplayName: data.personDisplayName,
+      personOrgId: data.personOrgId,
+      isModerator: data.isModerator,
+      created: data.created,
+    };
+
+    return {
+      id: data.id,
+      kind: 'membership',
+      channel: 'webex',
+      conversationId: data.roomId,
+      author: await this.resolveAuthor(payload.actorId),
+      content: {
+        text: added ? 'Bot was added to the space' : 'Bot was removed from the space',
+        membership: {
+          event: added ? 'added' : 'removed',
+          actorId: payload.actorId,
+        },
+      },
+      metadata: {
+        roomType: data.roomType ?? 'group',
+        roomId: data.roomId,
+        timestamp: data.created,
+        raw: membership,
+      },
+    };
+  }
+
   /**
    * Normalize a Webex message to OpenClaw envelope format
    */
-  private normalizeMessage(message: WebexMessage): OpenClawEnvelope {
+  private async normalizeMessage(message: WebexMessage): Promise<OpenClawEnvelope> {
     const attachments: OpenClawAttachment[] = [];
 
     // Convert file attachments
@@ -141,19 +571,26 @@ export class WebexWebhookHandler {
       }
     }
 
+    const wasMentioned = isBotMentioned(this.botId, message.mentionedPeople, message.mentionedGroups);
+    let text = message.text;
+    let markdown = message.markdown;
+
+    // Strip the bot's own mention so the agent sees only the request
+    if (wasMentioned && this.botIdentity) {
+      const mentionTexts = extractMentionTexts(message.html, this.botIdentity.id);
+      text = stripBotMention(text, this.botIdentity, mentionTexts);
+      markdown = stripBotMention(markdown, this.botIdentity, mentionTexts);
+    }
+
     return {
       id: message.id,
+      kind: 'message',
       channel: 'webex',
       conversationId: message.roomId,
-      author: {
-        id: message.personId,
-        email: message.personEmail,
-        displayName: undefined, // Would need additional API call to get
-        isBot: false, // Messages from bot are filtered out earlier
-      },
+      author: await this.resolveAuthor(message.personId, message.personEmail),
       content: {
-        text: message.text,
-        markdown: message.markdown,
+        text,
+        markdown,
         attachments: attachments.length > 0 ? attachments : undefined,
       },
       metadata: {
@@ -161,6 +598,7 @@ export class WebexWebhookHandler {
         roomId: message.roomId,
         timestamp: message.created,
         mentions: message.mentionedPeople,
+        wasMentioned,
         parentId: message.parentId,
         raw: message,
       },
@@ -168,38 +606,208 @@ export class WebexWebhookHandler {
   }
 
   /**
-   * Register webhooks with Webex
+   * Normalize a message deletion to a retraction envelope, built from the
+   * webhook data since the message itself is gone
    */
-  async registerWebhooks(): Promise<WebexWebhook[]> {
-    // First, list existing webhooks and remove duplicates
-    const existing = await this.listWebhooks();
-    const targetUrl = this.config.webhookUrl;
+  private async normalizeDeletedMessage(payload: WebexWebhookPayload): Promise<OpenClawEnvelope> {
+    const { data } = payload;
+    const message: WebexMessage = {
+      id: data.id,
+      roomId: data.roomId,
+      roomType: data.roomType ?? 'group',
+      personId: data.personId,
+      personEmail: data.personEmail ?? '',
+      created: data.created,
+    };
 
-    // Delete existing webhooks with the same target URL
-    for (const webhook of existing) {
-      if (webhook.targetUrl === targetUrl) {
-        await this.deleteWebhook(webhook.id);
-      }
+    return {
+      id: data.id,
+      kind: 'messageDeleted',
+      channel: 'webex',
+      conversationId: data.roomId,
+      author: await this.resolveAuthor(data.personId, data.personEmail),
+      content: {},
+      metadata: {
+        roomType: message.roomType,
+        roomId: data.roomId,
+        timestamp: data.created,
+        raw: message,
+      },
+    };
+  }
+
+  /**
+   * Build envelope author info, enriched from the cached people lookup.
+   * Falls back to the bare ID and email when the profile is unavailable.
+   */
+  private async resolveAuthor(personId: string, email?: string): Promise<OpenClawEnvelope['author']> {
+    const person = await this.people.get(personId);
+    if (!person) {
+      return { id: personId, email, isBot: false };
     }
 
-    // Create new webhooks for messages
-    const webhooks: WebexWebhook[] = [];
+    return {
+      id: personId,
+      email: email ?? person.emails?.[0],
+      displayName: person.displayName,
+      isBot: person.type === 'bot',
+      orgId: person.orgId,
+      isExternal: this.botOrgId && person.orgId ? person.orgId !== this.botOrgId : undefined,
+    };
+  }
+
+  /**
+   * Prefix naming the webhooks this handler owns. Webhooks without it
+   * belong to other tools or accounts and are never modified.
+   */
+  getWebhookNamePrefix(): string {
+    return this.config.webhookNamePrefix ?? `OpenClaw (${this.accountId})`;
+  }
+
+  /**
+   * Whether a registered webhook belongs to this handler
+   */
+  isOwnWebhook(webhook: WebexWebhook): boolean {
+    return webhook.name.startsWith(`${this.getWebhookNamePrefix()} `) ||
+      (webhook.targetUrl === this.config.webhookUrl && LEGACY_WEBHOOK_NAMES.includes(webhook.name));
+  }
 
-    // Webhook for new messages
-    const messageCreatedWebhook = await this.createWebhook({
-      name: 'OpenClaw Message Handler',
+  /**
+   * Webhooks this handler needs, in registration order
+   */
+  private desiredWebhooks(): CreateWebhookRequest[] {
+    const prefix = this.getWebhookNamePrefix();
+    const targetUrl = this.config.webhookUrl;
+    const secret = this.config.webhookSecret;
+    const webhook = (resource: CreateWebhookRequest['resource'], event: WebexWebhookEvent, filter?: string): CreateWebhookRequest => ({
+      name: `${prefix} ${resource}/${event}`,
       targetUrl,
-      resource: 'messages',
-      event: 'created',
-      secret: this.config.webhookSecret,
+      resource,
+      event,
+      filter,
+      secret,
     });
-    console.info('secret:', this.config.webhookSecret);
-    console.info('messageCreatedWebhook:', messageCreatedWebhook);
-    webhooks.push(messageCreatedWebhook);
+
+    // Only the bot's own memberships are of interest
+    const membershipFilter = this.botId ? `personId=${this.botId}` : undefined;
+
+    return [
+      // New, edited and deleted messages
+      webhook('messages', 'created'),
+      webhook('messages', 'updated'),
+      webhook('messages', 'deleted'),
+      // Adaptive Card submissions
+      webhook('attachmentActions', 'created'),
+      // The bot joining and leaving spaces
+      webhook('memberships', 'created', membershipFilter),
+      webhook('memberships', 'deleted', membershipFilter),
+    ];
+  }
+
+  /**
+   * Register webhooks with Webex.
+   *
+   * Registration is a diff against the webhooks this handler owns: matching
+   * webhooks are kept, ones that differ only in name, target URL or secret
+   * are updated in place, missing ones are created and leftovers are
+   * removed. Restarts therefore cause no delivery gap, and replicas sharing
+   * the account converge on the same set instead of replacing each other's.
+   */
+  async registerWebhooks(): Promise<WebexWebhook[]> {
+    const unclaimed = (await this.listWebhooks()).filter((webhook) => this.isOwnWebhook(webhook));
+    const webhooks: WebexWebhook[] = [];
+
+    for (const request of this.desiredWebhooks()) {
+      const sameSubscription = unclaimed.filter((webhook) =>
+        webhook.resource === request.resource &&
+        webhook.event === request.event &&
+        (webhook.filter ?? '') === (request.filter ?? ''),
+      );
+      const exact = sameSubscription.find((webhook) =>
+        webhook.name === request.name &&
+        webhook.targetUrl === request.targetUrl &&
+        webhook.secret === request.secret &&
+        webhook.status === 'active',
+      );
+      const match = exact ?? sameSubscription[0];
+      if (match) {
+        unclaimed.splice(unclaimed.indexOf(match), 1);
+      }
+
+      if (exact) {
+        webhooks.push(exact);
+      } else if (match) {
+        webhooks.push(await this.updateWebhook(match.id, {
+          name: request.name,
+          targetUrl: request.targetUrl,
+          secret: request.secret,
+          status: 'active',
+        }));
+      } else {
+        webhooks.push(await this.createWebhook(request));
+      }
+    }
+
+    // Subscriptions this handler no longer needs, or duplicates of ones it kept
+    for (const webhook of unclaimed) {
+      await this.deleteWebhook(webhook.id);
+    }
 
     return webhooks;
   }
 
+  /**
+   * Remove every webhook this handler owns, so Webex stops delivering to
+   * an account that is going away. Returns the removed webhooks.
+   */
+  async deregisterWebhooks(): Promise<WebexWebhook[]> {
+    const owned = (await this.listWebhooks()).filter((webhook) => this.isOwnWebhook(webhook));
+    for (const webhook of owned) {
+      await this.deleteWebhook(webhook.id);
+    }
+    return owned;
+  }
+
+  /**
+   * Bring registered webhooks back in line with what this handler needs:
+   * inactive ones (disabled by Webex after failed deliveries) are
+   * reactivated and missing ones are recreated. Webhooks that are in place
+   * and active are left untouched.
+   */
+  async reconcileWebhooks(): Promise<WebhookReconcileResult> {
+    const existing = await this.listWebhooks();
+    const result: WebhookReconcileResult = { healthy: [], reactivated: [], recreated: [], failed: [] };
+
+    for (const request of this.desiredWebhooks()) {
+      const label = `${request.resource}/${request.event}`;
+      const match = existing.find((webhook) =>
+        this.isOwnWebhook(webhook) &&
+        webhook.targetUrl === request.targetUrl &&
+        webhook.resource === request.resource &&
+        webhook.event === request.event,
+      );
+
+      try {
+        if (!match) {
+          result.recreated.push(await this.createWebhook(request));
+        } else if (match.status === 'inactive') {
+          result.reactivated.push(await this.updateWebhook(match.id, {
+            name: match.name,
+            targetUrl: match.targetUrl,
+            secret: request.secret,
+            status: 'active',
+          }));
+        } else {
+          result.healthy.push(match);
+        }
+      } catch (error) {
+        result.failed.push({ webhook: label, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
   /**
    * List all webhooks
    */
@@ -241,6 +849,27 @@ export class WebexWebhookHandler {
     return response.json() as Promise<WebexWebhook>;
   }
 
+  /**
+   * Update a webhook, e.g. to reactivate it
+   */
+  async updateWebhook(webhookId: string, request: UpdateWebhookRequest): Promise<WebexWebhook> {
+    const response = await fetch(`${this.apiBaseUrl}/webhooks/${webhookId}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${this.config.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to update webhook: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    return response.json() as Promise<WebexWebhook>;
+  }
+
   /**
    * Delete a webhook
    */
@@ -261,7 +890,7 @@ export class WebexWebhookHandler {
   /**
    * Get bot information
    */
-  private async getBotInfo(): Promise<{ id: string; displayName: string; emails: string[] }> {
+  private async getBotInfo(): Promise<BotIdentity & { orgId?: string }> {
     const response = await fetch(`${this.apiBaseUrl}/people/me`, {
       method: 'GET',
       headers: {
@@ -274,7 +903,7 @@ export class WebexWebhookHandler {
       throw new Error(`Failed to get bot info: ${response.status} ${response.statusText}`);
     }
 
-    return response.json() as Promise<{ id: string; displayName: string; emails: string[] }>;
+    return response.json() as Promise<BotIdentity & { orgId?: string }>;
   }
 
   /**